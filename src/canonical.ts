@@ -0,0 +1,137 @@
+import { ModifierName, OPTION_NAMES, resolveModifier } from './option-names.js';
+import { ParamBuilder } from './param-builder.js';
+import { getPlugin, resolvePlugin } from './plugins.js';
+
+/**
+ * The canonical order of the modifiers. Presets come first such
+ * that the other modifiers override them, as imgproxy applies
+ * the options in the order of the URL.
+ */
+const CANONICAL_ORDER: ReadonlyMap<keyof ParamBuilder, number> = new Map(
+  [
+    'preset' as ModifierName,
+    ...(Object.keys(OPTION_NAMES) as ModifierName[])
+      .filter((m) => m !== 'preset')
+      .sort(),
+  ].map((m, idx) => [m, idx]),
+);
+
+/**
+ * The stringified modifiers which are equal to the defaults of
+ * imgproxy and therefore have no effect
+ */
+const NO_OP_MODIFIERS: ReadonlySet<string> = new Set([
+  'bga:1',
+  'bl:0',
+  'br:0',
+  'co:1',
+  'dpr:1',
+  'mb:0',
+  'mh:0',
+  'mw:0',
+  'pd',
+  'pg:0',
+  'pix:0',
+  'q:0',
+  'rot:0',
+  'sa:1',
+  'sh:0',
+  'wmsh:0',
+  'z:1',
+]);
+
+/**
+ * Returns the position of the specified modifier in the
+ * canonical order
+ *
+ * @param modifier  The modifier
+ * @returns         The position, equal for all custom modifiers
+ */
+const rank = (modifier: keyof ParamBuilder): number =>
+  CANONICAL_ORDER.get(modifier) ??
+  (getPlugin(modifier) ? CANONICAL_ORDER.size : Infinity);
+
+/**
+ * Orders the modifiers of a single pipeline deterministically
+ * and drops the ones without effect
+ *
+ * The defaults are kept if a preset is applied, as they might
+ * override the options of the preset.
+ *
+ * @param modifiers  The modifiers and their stringified values
+ * @returns          The stringified modifiers in canonical order
+ */
+const canonicalizePipeline = (
+  modifiers: Array<[keyof ParamBuilder | undefined, string]>,
+): string[] => {
+  const hasPreset = modifiers.some(([modifier]) => modifier === 'preset');
+  const order = (modifier?: keyof ParamBuilder): number =>
+    modifier == null ? Infinity : rank(modifier);
+
+  return modifiers
+    .filter(([, value]) => hasPreset || !NO_OP_MODIFIERS.has(value))
+    .sort(([a], [b]) => {
+      if (order(a) !== order(b)) return order(a) - order(b);
+      if (order(a) !== CANONICAL_ORDER.size) return 0;
+      return (a as string) < (b as string) ? -1 : 1;
+    })
+    .map(([, value]) => value);
+};
+
+/**
+ * Splits the stringified chained pipelines into the modifiers
+ * of each pipeline
+ *
+ * @param chain  The chained pipelines, e.g. `bl:1/-/rot:90`
+ * @returns      The modifiers of each pipeline
+ */
+const splitPipelines = (
+  chain: string,
+): Array<Array<[keyof ParamBuilder | undefined, string]>> =>
+  chain.split('/-/').map((pipeline) =>
+    pipeline.split('/').map((segment) => {
+      const [name] = segment.split(':', 1);
+      return [
+        resolveModifier(name) ??
+          (resolvePlugin(name)?.name as keyof ParamBuilder | undefined),
+        segment,
+      ];
+    }),
+  );
+
+/**
+ * Orders the modifiers deterministically and drops the ones
+ * without effect, such that equivalent param builders produce
+ * identical URLs.
+ *
+ * Custom modifiers are ordered by name after the built-in ones.
+ * Unknown modifiers are kept in their original order after the
+ * custom ones.
+ *
+ * Chained pipelines are ordered separately. Modifiers applied
+ * before or after the chain belong to its first or last
+ * pipeline.
+ *
+ * @param modifiers  The applied modifiers
+ * @returns          The stringified modifiers in canonical order
+ */
+const canonicalizeModifiers = (
+  modifiers: ReadonlyMap<keyof ParamBuilder, string>,
+): string[] => {
+  const entries = Array.from(modifiers);
+  const idx = entries.findIndex(
+    ([modifier]) => (modifier as string) === 'chain',
+  );
+  if (idx < 0) return canonicalizePipeline(entries);
+
+  const pipelines = splitPipelines(entries[idx][1]);
+  pipelines[0].unshift(...entries.slice(0, idx));
+  pipelines[pipelines.length - 1].push(...entries.slice(idx + 1));
+
+  return pipelines.flatMap((pipeline, i) => [
+    ...(i ? ['-'] : []),
+    ...canonicalizePipeline(pipeline),
+  ]);
+};
+
+export { canonicalizeModifiers };
@@ -0,0 +1,177 @@
+import { describeHexError } from './common.js';
+import {
+  BuildOptions,
+  ParamBuilder,
+  ParamBuilderOptions,
+} from './param-builder.js';
+import { isValidSignatureSize } from './signature.js';
+import { ImgproxyTarget, TargetedParamBuilder } from './target.js';
+
+/**
+ * The configuration of an imgproxy client
+ */
+type ImgproxyClientConfig = Omit<BuildOptions, 'path'> &
+  ParamBuilderOptions & {
+    /**
+     * (Optional) The modifiers applied to every builder created
+     * by the client, e.g. `pb().stripMetadata().dpr(2)`
+     */
+    defaults?: Pick<ParamBuilder, 'modifiers'>;
+  };
+
+/**
+ * A client with bound build options
+ */
+type ImgproxyClient<B = ParamBuilder> = {
+  /**
+   * Creates a new param builder with the default modifiers
+   * of the client applied
+   *
+   * @returns  The param builder
+   */
+  pb: () => B;
+
+  /**
+   * Builds the imgproxy URL for the specified image
+   *
+   * The default modifiers of the client are applied before the
+   * ones of the param builder, unless it was created by the
+   * client.
+   *
+   * @param path     The path to the target image
+   * @param builder  (Optional) The param builder, defaults to one
+   *                 with the default modifiers of the client
+   * @param options  (Optional) Build options overriding the ones
+   *                 of the client
+   * @returns        The imgproxy URL
+   */
+  url: (
+    path: string,
+    builder?: B | ParamBuilder,
+    options?: Omit<BuildOptions, 'path'>,
+  ) => string;
+};
+
+/**
+ * The environment variables read by `fromEnv()`
+ */
+type ImgproxyEnv = Record<string, string | undefined>;
+
+/**
+ * Creates a client which applies the specified build options
+ * and default modifiers to every URL.
+ *
+ * @example
+ * ```typescript
+ * const imgproxy = createImgproxyClient({
+ *   baseUrl: 'https://imgproxy.test',
+ *   signature: { key: 'a91bdcda48ce22cd7d8d3a0eda93', salt: 'a91bdcda48ce22cd7d8d3a0eda93' },
+ *   defaults: pb().stripMetadata(),
+ * });
+ *
+ * imgproxy.url('s3://mybucket/myimage.png', imgproxy.pb().rotate(90));
+ * ```
+ *
+ * If a target is specified, the builders created by the client
+ * only expose the modifiers supported by the target.
+ *
+ * @param config  The client configuration
+ * @returns       The client
+ */
+function createImgproxyClient<T extends ImgproxyTarget>(
+  config: ImgproxyClientConfig & { target: T },
+): ImgproxyClient<TargetedParamBuilder<T>>;
+function createImgproxyClient(config?: ImgproxyClientConfig): ImgproxyClient;
+function createImgproxyClient(
+  config: ImgproxyClientConfig = {},
+): ImgproxyClient {
+  const { defaults, strict, target, ...buildOptions } = config;
+
+  // The builders created by the client already have the default
+  // modifiers, which might have been removed on purpose
+  const created = new WeakSet<ParamBuilder>();
+
+  const pb = (): ParamBuilder => {
+    const builder = new ParamBuilder(new Map(defaults?.modifiers), {
+      strict,
+      target,
+    });
+    created.add(builder);
+    return builder;
+  };
+
+  return {
+    pb,
+    url: (path, builder = pb(), options) =>
+      (created.has(builder) ? builder : pb().extendWith(builder)).build({
+        ...buildOptions,
+        ...options,
+        path,
+      }),
+  };
+}
+
+/**
+ * Loads the client configuration from the environment variables
+ * `IMGPROXY_KEY`, `IMGPROXY_SALT`, `IMGPROXY_SIGNATURE_SIZE`,
+ * `IMGPROXY_BASE_URL` and `IMGPROXY_PATH_PREFIX`.
+ *
+ * The URLs are only signed if both the key and the salt are set.
+ *
+ * @param env  The environment variables, defaults to `process.env`
+ * @returns    The client configuration
+ */
+const fromEnv = (
+  env: ImgproxyEnv = (globalThis as { process?: { env: ImgproxyEnv } }).process
+    ?.env ?? {},
+): ImgproxyClientConfig => {
+  const {
+    IMGPROXY_KEY: key,
+    IMGPROXY_SALT: salt,
+    IMGPROXY_SIGNATURE_SIZE: size,
+    IMGPROXY_BASE_URL: baseUrl,
+    IMGPROXY_PATH_PREFIX: pathPrefix,
+  } = env;
+
+  const errors: string[] = [];
+
+  if (key && !salt)
+    errors.push('IMGPROXY_KEY is set, but IMGPROXY_SALT is not');
+  if (salt && !key)
+    errors.push('IMGPROXY_SALT is set, but IMGPROXY_KEY is not');
+  const keyError = key ? describeHexError(key) : undefined;
+  const saltError = salt ? describeHexError(salt) : undefined;
+
+  if (keyError) errors.push(`IMGPROXY_KEY ${keyError}`);
+  if (saltError) errors.push(`IMGPROXY_SALT ${saltError}`);
+  if (size && !(/^\d+$/.test(size) && isValidSignatureSize(Number(size))))
+    errors.push(
+      `IMGPROXY_SIGNATURE_SIZE must be an integer between 1 and 32, got: ${size}`,
+    );
+  if (baseUrl && !/^https?:\/\/[^/]+/i.test(baseUrl))
+    errors.push(
+      `IMGPROXY_BASE_URL must be an absolute http(s) URL, got: ${baseUrl}`,
+    );
+
+  if (errors.length)
+    throw new Error(
+      `Invalid imgproxy environment configuration:\n- ${errors.join('\n- ')}`,
+    );
+
+  return {
+    baseUrl: baseUrl?.replace(/\/+$/, '') || undefined,
+    pathPrefix: pathPrefix || undefined,
+    signature:
+      key && salt
+        ? { key, salt, size: size ? Number(size) : undefined }
+        : undefined,
+  };
+};
+
+export {
+  ImgproxyClient,
+  ImgproxyClientConfig,
+  ImgproxyEnv,
+  createImgproxyClient,
+  fromEnv,
+};
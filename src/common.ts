@@ -1,6 +1,7 @@
 import { base64urlEncode, parseHexString, utf8encode } from './crypto/codec.js';
-import { wordArrayToByteArray } from './crypto/common.js';
-import hmac from './crypto/hmac.js';
+import { concatBytes, wordArrayToByteArray } from './crypto/common.js';
+import { hmacFinal, hmacInit } from './crypto/hmac.js';
+import { AsyncSigner, Signer, pureJsSigner } from './signer.js';
 
 /**
  * Stringifies the imgproxy modifier for use within the
@@ -22,6 +23,64 @@ const stringifyOptions = (
     .replace(/:+$/, '');
 };
 
+/**
+ * Decodes the specified URI component, falling back to the
+ * raw value if it isn't validly encoded
+ *
+ * @param value  The URI component
+ * @returns      The decoded value
+ */
+const safeDecodeURIComponent = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Splits the stringified imgproxy modifier into its decoded
+ * values, the reverse of `stringifyOptions()`.
+ *
+ * @param param  The stringified modifier, e.g. `rs:fit:300:200`
+ * @returns      The values, e.g. `['fit', '300', '200']`
+ */
+const parseOptions = (param: string): string[] =>
+  param.split(':').slice(1).map(safeDecodeURIComponent);
+
+/**
+ * Parses the specified modifier value as number
+ *
+ * @param value  The value
+ * @returns      The number, undefined if the value is empty
+ */
+const parseNumber = (value?: string): number | undefined =>
+  value == null || value === '' ? undefined : Number(value);
+
+/**
+ * Parses the specified modifier value as boolean, accepting
+ * the same truthy values as imgproxy
+ *
+ * @param value  The value
+ * @returns      The boolean, undefined if the value is empty
+ */
+const parseBoolean = (value?: string): boolean | undefined =>
+  value == null || value === ''
+    ? undefined
+    : ['1', 't', 'true'].includes(value);
+
+/**
+ * Removes the undefined properties from the specified object,
+ * such that decoded options only contain the applied values
+ *
+ * @param options  The options
+ * @returns        The options without undefined properties
+ */
+const compactOptions = <T extends object>(options: T): T =>
+  Object.fromEntries(
+    Object.entries(options).filter(([, v]) => v !== undefined),
+  ) as T;
+
 /**
  * Encodes the filepath to base64.
  *
@@ -32,6 +91,86 @@ const encodeFilePath = (filePath: string): string => {
   return base64urlEncode(utf8encode(filePath));
 };
 
+/**
+ * Normalizes the specified path prefix to start with a slash
+ * and to not end with one
+ *
+ * @param prefix  The path prefix, e.g. `img/`
+ * @returns       The normalized prefix, e.g. `/img`
+ */
+const normalizePathPrefix = (prefix = ''): string =>
+  prefix.replace(/^\/*/, '/').replace(/\/+$/, '');
+
+/**
+ * Describes why the specified string is not a valid hex-encoded
+ * key or salt
+ *
+ * @param value  The hex-encoded string
+ * @returns      The description or undefined if the string is valid
+ */
+const describeHexError = (value: string): string | undefined => {
+  if (!value) return 'must not be empty';
+  if (/\s/.test(value)) return 'must not contain whitespace';
+
+  const invalid = /[^\da-f]/i.exec(value);
+  if (invalid)
+    return `must be hex-encoded, found '${invalid[0]}' at position ${
+      invalid.index
+    }${/^[\w+/-]+=*$/.test(value) ? ' (the value looks base64-encoded)' : ''}`;
+
+  if (value.length % 2)
+    return `must have an even number of characters, got ${value.length}`;
+
+  return undefined;
+};
+
+/**
+ * Prepares the key and the message to sign for the specified
+ * imgproxy param string.
+ *
+ * @param paramString  The param string
+ * @param key          The hex encoded key
+ * @param salt         The hex encoded salt
+ * @returns            The key and message bytes
+ */
+const prepareSignature = (
+  paramString: string,
+  key: string,
+  salt: string,
+): [Uint8Array, Uint8Array] => {
+  const path = paramString.startsWith('/') ? paramString : `/${paramString}`;
+  return [
+    parseHexString(key),
+    concatBytes(parseHexString(salt), utf8encode(path)),
+  ];
+};
+
+/**
+ * Calculates the raw signature bytes for the specified imgproxy
+ * param string.
+ *
+ * @param paramString  The param string
+ * @param key          The hex encoded key
+ * @param salt         The hex encoded salt
+ * @param length       The number of bytes to use for signature
+ * @param signer       The signer calculating the HMAC
+ * @returns            The truncated signature bytes
+ */
+const generateSignatureBytes = (
+  paramString: string,
+  key: string,
+  salt: string,
+  length: number,
+  signer: Signer = pureJsSigner,
+): Uint8Array => {
+  const h = signer.hmacSha256(...prepareSignature(paramString, key, salt));
+
+  if (!(h instanceof Uint8Array))
+    throw new Error('Asynchronous signers require buildAsync()');
+
+  return h.subarray(0, length);
+};
+
 /**
  * Generates the URL for the specified imgproxy param string.
  *
@@ -41,6 +180,7 @@ const encodeFilePath = (filePath: string): string => {
  * @param key          The hex encoded key
  * @param salt         The hex encoded salt
  * @param length       The number of bytes to use for signature before encoding to Base64
+ * @param signer       The signer calculating the HMAC
  * @returns            The signature
  */
 const generateSignature = (
@@ -48,15 +188,111 @@ const generateSignature = (
   key: string,
   salt: string,
   length: number,
+  signer?: Signer,
 ): string => {
-  const path = paramString.startsWith('/') ? paramString : `/${paramString}`;
-  const h = hmac(parseHexString(key), [
-    ...parseHexString(salt),
-    ...utf8encode(path),
-  ]);
+  return base64urlEncode(
+    generateSignatureBytes(paramString, key, salt, length, signer),
+  );
+};
 
-  const truncated = wordArrayToByteArray(h).slice(0, length);
-  return base64urlEncode(truncated);
+/**
+ * Generates the URL for the specified imgproxy param string
+ * using a synchronous or an asynchronous signer.
+ *
+ * @param paramString  The param string
+ * @param key          The hex encoded key
+ * @param salt         The hex encoded salt
+ * @param length       The number of bytes to use for signature before encoding to Base64
+ * @param signer       The signer calculating the HMAC
+ * @returns            The signature
+ */
+const generateSignatureAsync = async (
+  paramString: string,
+  key: string,
+  salt: string,
+  length: number,
+  signer: Signer | AsyncSigner = pureJsSigner,
+): Promise<string> => {
+  const h = await signer.hmacSha256(
+    ...prepareSignature(paramString, key, salt),
+  );
+  return base64urlEncode(h.subarray(0, length));
 };
 
-export { stringifyOptions, encodeFilePath, generateSignature };
+/**
+ * Creates a signature generator for param strings sharing the
+ * specified prefix.
+ *
+ * With the bundled signer, the HMAC state after consuming the
+ * padded key, the salt and the prefix is precomputed such that
+ * only the suffix is hashed for each signature.
+ *
+ * @param prefix  The common prefix of the param strings
+ * @param key     The hex encoded key
+ * @param salt    The hex encoded salt
+ * @param length  The number of bytes to use for signature before encoding to Base64
+ * @param signer  The signer calculating the HMAC
+ * @returns       A function generating the signature for the specified suffix
+ */
+const createSignatureGenerator = (
+  prefix: string,
+  key: string,
+  salt: string,
+  length: number,
+  signer: Signer = pureJsSigner,
+): ((suffix: string) => string) => {
+  const path = prefix.startsWith('/') ? prefix : `/${prefix}`;
+
+  if (signer !== pureJsSigner)
+    return (suffix) =>
+      generateSignature(`${path}${suffix}`, key, salt, length, signer);
+
+  const state = hmacInit(
+    parseHexString(key),
+    concatBytes(parseHexString(salt), utf8encode(path)),
+  );
+
+  return (suffix) =>
+    base64urlEncode(
+      wordArrayToByteArray(hmacFinal(state, utf8encode(suffix))).subarray(
+        0,
+        length,
+      ),
+    );
+};
+
+/**
+ * Compares two byte arrays in constant time, such that the time
+ * taken does not depend on the position of the first mismatch.
+ *
+ * @param a  The first byte array
+ * @param b  The second byte array
+ * @returns  Whether both arrays are equal
+ */
+const constantTimeEqual = (
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+): boolean => {
+  let diff = a.length ^ b.length;
+
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ (b[i] ?? 0);
+
+  return diff === 0;
+};
+
+export {
+  stringifyOptions,
+  safeDecodeURIComponent,
+  parseOptions,
+  parseNumber,
+  parseBoolean,
+  compactOptions,
+  encodeFilePath,
+  normalizePathPrefix,
+  describeHexError,
+  generateSignature,
+  generateSignatureAsync,
+  generateSignatureBytes,
+  createSignatureGenerator,
+  constantTimeEqual,
+};
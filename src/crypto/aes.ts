@@ -0,0 +1,289 @@
+/**
+ * The AES block size in bytes
+ */
+const AES_BLOCK_SIZE = 16;
+
+/**
+ * Multiplies the specified byte by x (i.e. 2) in GF(2^8)
+ *
+ * @param b  The byte
+ * @returns  The product
+ */
+const xtime = (b: number): number => ((b << 1) ^ (b & 0x80 ? 0x1b : 0)) & 0xff;
+
+/**
+ * Multiplies two bytes in GF(2^8)
+ *
+ * @param a  The first byte
+ * @param b  The second byte
+ * @returns  The product
+ */
+const mul = (a: number, b: number): number => {
+  let res = 0;
+
+  for (; b > 0; b >>>= 1, a = xtime(a)) if (b & 1) res ^= a;
+
+  return res;
+};
+
+/**
+ * Rotates the byte left by the specified number of bits
+ *
+ * @param b    The byte
+ * @param cnt  The number of rotations
+ * @returns    The rotated byte
+ */
+const rotl8 = (b: number, cnt: number): number =>
+  ((b << cnt) | (b >>> (8 - cnt))) & 0xff;
+
+/**
+ * Generates the substitution box and its inverse
+ *
+ * @returns  The S-box and the inverse S-box
+ */
+const createSBoxes = (): [Uint8Array, Uint8Array] => {
+  const sBox = new Uint8Array(256);
+  const invSBox = new Uint8Array(256);
+
+  // p iterates over all non-zero elements by multiplying with 3,
+  // q tracks its multiplicative inverse by dividing by 3
+  for (let p = 1, q = 1, i = 0; i < 255; i++) {
+    p = p ^ xtime(p);
+
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+
+    // Affine transformation
+    sBox[p] = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+  }
+
+  // Zero has no inverse
+  sBox[0] = 0x63;
+
+  for (let i = 0; i < 256; i++) invSBox[sBox[i]] = i;
+
+  return [sBox, invSBox];
+};
+
+const [S_BOX, INV_S_BOX] = createSBoxes();
+
+/**
+ * Expands the specified key into the round keys
+ *
+ * @param key  The 16, 24 or 32 byte key
+ * @returns    The round keys
+ */
+const expandKey = (key: Uint8Array): Uint8Array => {
+  if (![16, 24, 32].includes(key.length))
+    throw new Error(
+      `Invalid AES key length: ${key.length} bytes, expected 16, 24 or 32`,
+    );
+
+  const nk = key.length / 4;
+  const words = 4 * (nk + 7);
+  const w = new Uint8Array(words * 4);
+  w.set(key);
+
+  for (let i = nk, rcon = 1; i < words; i++) {
+    let t = Array.from(w.subarray((i - 1) * 4, i * 4));
+
+    if (i % nk === 0) {
+      t = [S_BOX[t[1]] ^ rcon, S_BOX[t[2]], S_BOX[t[3]], S_BOX[t[0]]];
+      rcon = xtime(rcon);
+    } else if (nk > 6 && i % nk === 4) {
+      t = t.map((b) => S_BOX[b]);
+    }
+
+    for (let j = 0; j < 4; j++) w[i * 4 + j] = w[(i - nk) * 4 + j] ^ t[j];
+  }
+
+  return w;
+};
+
+/**
+ * XORs the round key of the specified round into the state
+ *
+ * @param state      The state
+ * @param roundKeys  The round keys
+ * @param round      The round
+ */
+const addRoundKey = (
+  state: Uint8Array,
+  roundKeys: Uint8Array,
+  round: number,
+): void => {
+  for (let i = 0; i < AES_BLOCK_SIZE; i++)
+    state[i] ^= roundKeys[round * AES_BLOCK_SIZE + i];
+};
+
+/**
+ * Substitutes and shifts the rows of the state. The state
+ * is stored column by column.
+ *
+ * @param state  The state
+ * @param box    The substitution box
+ * @param dir    1 to shift left, -1 to shift right
+ */
+const subShiftRows = (
+  state: Uint8Array,
+  box: Uint8Array,
+  dir: 1 | -1,
+): void => {
+  const tmp = state.slice();
+
+  for (let c = 0; c < 4; c++)
+    for (let r = 0; r < 4; r++)
+      state[c * 4 + r] = box[tmp[((c + dir * r + 4) % 4) * 4 + r]];
+};
+
+/**
+ * Mixes the columns of the state
+ *
+ * @param state  The state
+ */
+const mixColumns = (state: Uint8Array): void => {
+  for (let c = 0; c < 16; c += 4) {
+    const [a0, a1, a2, a3] = state.subarray(c, c + 4);
+
+    state[c] = xtime(a0) ^ xtime(a1) ^ a1 ^ a2 ^ a3;
+    state[c + 1] = a0 ^ xtime(a1) ^ xtime(a2) ^ a2 ^ a3;
+    state[c + 2] = a0 ^ a1 ^ xtime(a2) ^ xtime(a3) ^ a3;
+    state[c + 3] = xtime(a0) ^ a0 ^ a1 ^ a2 ^ xtime(a3);
+  }
+};
+
+/**
+ * Reverses the mixing of the columns of the state
+ *
+ * @param state  The state
+ */
+const invMixColumns = (state: Uint8Array): void => {
+  for (let c = 0; c < 16; c += 4) {
+    const [a0, a1, a2, a3] = state.subarray(c, c + 4);
+
+    state[c] = mul(a0, 14) ^ mul(a1, 11) ^ mul(a2, 13) ^ mul(a3, 9);
+    state[c + 1] = mul(a0, 9) ^ mul(a1, 14) ^ mul(a2, 11) ^ mul(a3, 13);
+    state[c + 2] = mul(a0, 13) ^ mul(a1, 9) ^ mul(a2, 14) ^ mul(a3, 11);
+    state[c + 3] = mul(a0, 11) ^ mul(a1, 13) ^ mul(a2, 9) ^ mul(a3, 14);
+  }
+};
+
+/**
+ * Encrypts a single block in place
+ *
+ * @param state      The block
+ * @param roundKeys  The round keys
+ */
+const encryptBlock = (state: Uint8Array, roundKeys: Uint8Array): void => {
+  const rounds = roundKeys.length / AES_BLOCK_SIZE - 1;
+
+  addRoundKey(state, roundKeys, 0);
+
+  for (let round = 1; round < rounds; round++) {
+    subShiftRows(state, S_BOX, 1);
+    mixColumns(state);
+    addRoundKey(state, roundKeys, round);
+  }
+
+  subShiftRows(state, S_BOX, 1);
+  addRoundKey(state, roundKeys, rounds);
+};
+
+/**
+ * Decrypts a single block in place
+ *
+ * @param state      The block
+ * @param roundKeys  The round keys
+ */
+const decryptBlock = (state: Uint8Array, roundKeys: Uint8Array): void => {
+  const rounds = roundKeys.length / AES_BLOCK_SIZE - 1;
+
+  addRoundKey(state, roundKeys, rounds);
+  subShiftRows(state, INV_S_BOX, -1);
+
+  for (let round = rounds - 1; round > 0; round--) {
+    addRoundKey(state, roundKeys, round);
+    invMixColumns(state);
+    subShiftRows(state, INV_S_BOX, -1);
+  }
+
+  addRoundKey(state, roundKeys, 0);
+};
+
+/**
+ * Encrypts the specified message with AES-CBC and PKCS#7 padding
+ *
+ * @param key      The 16, 24 or 32 byte key
+ * @param iv       The 16 byte initialization vector
+ * @param message  The message
+ * @returns        The ciphertext, excluding the IV
+ */
+const aesCbcEncrypt = (
+  key: Uint8Array,
+  iv: Uint8Array,
+  message: Uint8Array,
+): Uint8Array => {
+  if (iv.length !== AES_BLOCK_SIZE)
+    throw new Error(`Invalid IV length: ${iv.length} bytes, expected 16`);
+
+  const roundKeys = expandKey(key);
+  const padding = AES_BLOCK_SIZE - (message.length % AES_BLOCK_SIZE);
+  const res = new Uint8Array(message.length + padding).fill(padding);
+  res.set(message);
+
+  for (let i = 0; i < res.length; i += AES_BLOCK_SIZE) {
+    const block = res.subarray(i, i + AES_BLOCK_SIZE);
+    const prev = i ? res.subarray(i - AES_BLOCK_SIZE, i) : iv;
+
+    for (let j = 0; j < AES_BLOCK_SIZE; j++) block[j] ^= prev[j];
+    encryptBlock(block, roundKeys);
+  }
+
+  return res;
+};
+
+/**
+ * Decrypts the specified AES-CBC ciphertext and removes the
+ * PKCS#7 padding
+ *
+ * @param key         The 16, 24 or 32 byte key
+ * @param iv          The 16 byte initialization vector
+ * @param ciphertext  The ciphertext
+ * @returns           The message
+ */
+const aesCbcDecrypt = (
+  key: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+): Uint8Array => {
+  if (iv.length !== AES_BLOCK_SIZE)
+    throw new Error(`Invalid IV length: ${iv.length} bytes, expected 16`);
+  if (!ciphertext.length || ciphertext.length % AES_BLOCK_SIZE)
+    throw new Error('Invalid ciphertext length');
+
+  const roundKeys = expandKey(key);
+  const res = new Uint8Array(ciphertext);
+
+  for (let i = 0; i < res.length; i += AES_BLOCK_SIZE) {
+    const block = res.subarray(i, i + AES_BLOCK_SIZE);
+    const prev = i ? ciphertext.subarray(i - AES_BLOCK_SIZE, i) : iv;
+
+    decryptBlock(block, roundKeys);
+    for (let j = 0; j < AES_BLOCK_SIZE; j++) block[j] ^= prev[j];
+  }
+
+  const padding = res[res.length - 1];
+  if (
+    padding < 1 ||
+    padding > AES_BLOCK_SIZE ||
+    res.subarray(res.length - padding).some((b) => b !== padding)
+  )
+    throw new Error('Invalid padding');
+
+  return res.subarray(0, res.length - padding);
+};
+
+export { AES_BLOCK_SIZE, aesCbcEncrypt, aesCbcDecrypt };
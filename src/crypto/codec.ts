@@ -14,8 +14,10 @@ const low6 = (num: number): number => {
  * @param msg  The message
  * @returns    The encoded message as array of bytes
  */
-const utf8encode = (msg: string): number[] => {
-  const arr: number[] = [];
+const utf8encode = (msg: string): Uint8Array => {
+  // Each UTF-16 code unit takes up at most 3 bytes
+  const arr = new Uint8Array(msg.length * 3);
+  let len = 0;
 
   for (let i = 0; i < msg.length; i++) {
     const charCode = msg.charCodeAt(i);
@@ -23,16 +25,16 @@ const utf8encode = (msg: string): number[] => {
     // U+0000 to U+007F
     if (charCode < 0x80) {
       // Byte 1 0xb0xxx_xxxx
-      arr.push(charCode);
+      arr[len++] = charCode;
     }
 
     // U+0080 to U+07FF
     else if (charCode < 0x800) {
       // Byte 1 0b110x_xxxx
-      arr.push(0b1100_0000 | (charCode >>> 6));
+      arr[len++] = 0b1100_0000 | (charCode >>> 6);
 
       // Byte 2 0b10xx_xxxx
-      arr.push(0b1000_0000 | low6(charCode));
+      arr[len++] = 0b1000_0000 | low6(charCode);
     }
 
     // U+0800 to U+10000
@@ -40,13 +42,13 @@ const utf8encode = (msg: string): number[] => {
     // Excluding UTF-16 surrogate range U+D800 to U+DFFF
     else if (charCode < 0x10000 && (charCode < 0xd800 || charCode >= 0xe000)) {
       // Byte 1 0b1110_xxxx
-      arr.push(0b1110_0000 | ((charCode >>> 12) & 0b1111));
+      arr[len++] = 0b1110_0000 | ((charCode >>> 12) & 0b1111);
 
       // Byte 2 0b10xx_xxxx
-      arr.push(0b1000_0000 | low6(charCode >>> 6));
+      arr[len++] = 0b1000_0000 | low6(charCode >>> 6);
 
       // Byte 3 0b10xx_xxxx
-      arr.push(0b1000_0000 | low6(charCode));
+      arr[len++] = 0b1000_0000 | low6(charCode);
     }
 
     // Surrogates
@@ -60,20 +62,20 @@ const utf8encode = (msg: string): number[] => {
       const surrogate = 0x10000 + (highSurrogate | lowSurrogate);
 
       // Byte 1 0b1111_0xxx
-      arr.push(0b1111_0000 | ((surrogate >>> 18) & 0b0111));
+      arr[len++] = 0b1111_0000 | ((surrogate >>> 18) & 0b0111);
 
       // Byte 2 0b10xx_xxxx
-      arr.push(0b1000_0000 | low6(surrogate >>> 12));
+      arr[len++] = 0b1000_0000 | low6(surrogate >>> 12);
 
       // Byte 3 0b10xx_xxxx
-      arr.push(0b1000_0000 | low6(surrogate >>> 6));
+      arr[len++] = 0b1000_0000 | low6(surrogate >>> 6);
 
       // Byte 4 0b10xx_xxxx
-      arr.push(0b1000_0000 | low6(surrogate));
+      arr[len++] = 0b1000_0000 | low6(surrogate);
     }
   }
 
-  return arr;
+  return arr.subarray(0, len);
 };
 
 /**
@@ -110,80 +112,179 @@ const parseHexChar = (char: string): number => {
  * @param str  The string
  * @returns    The array of parsed bytes
  */
-const parseHexString = (str: string): number[] => {
-  const res = [];
+const parseHexString = (str: string): Uint8Array => {
+  const res = new Uint8Array(Math.ceil(str.length / 2));
 
   for (let i = 0; i < str.length; i += 2) {
-    res.push(0);
-    res[res.length - 1] |= parseHexChar(str[i]) << 4;
+    res[i / 2] = parseHexChar(str[i]) << 4;
 
-    if (i + 1 < str.length) res[res.length - 1] |= parseHexChar(str[i + 1]);
+    if (i + 1 < str.length) res[i / 2] |= parseHexChar(str[i + 1]);
   }
 
   return res;
 };
 
 /**
- * Encodes the lowest 6 bits of the specified
- * number to its base64url representation
+ * Encodes the specified array of bytes to a
+ * lowercase hex string
  *
- * @param b  The number
- * @returns  The base64url encoded bits
+ * @param bytes  The bytes
+ * @returns      The hex string
+ */
+const hexEncode = (bytes: ArrayLike<number>): string => {
+  let res = '';
+
+  for (let i = 0; i < bytes.length; i++)
+    res += bytes[i].toString(16).padStart(2, '0');
+
+  return res;
+};
+
+/**
+ * The base64url alphabet. Plus (+) and slash (/) in Base64
+ * are replaced with '-' and '_' in a Base64 URL.
+ */
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Encodes the specified array of bytes to
+ * its base64url representation
+ *
+ * @param bytes  The bytes
+ * @returns      The base64url string
+ */
+const base64urlEncode = (bytes: ArrayLike<number>): string => {
+  const chars = new Array<string>(Math.ceil((bytes.length * 4) / 3));
+  let len = 0;
+
+  // Iterate through 3-byte packets to have
+  // a multiple of 6 bits
+  for (let i = 0; i < bytes.length; i += 3) {
+    const packet =
+      (bytes[i] << 16) |
+      ((i + 1 < bytes.length ? bytes[i + 1] : 0) << 8) |
+      (i + 2 < bytes.length ? bytes[i + 2] : 0);
+
+    chars[len++] = BASE64URL_ALPHABET[(packet >>> 18) & 0b0011_1111];
+    chars[len++] = BASE64URL_ALPHABET[(packet >>> 12) & 0b0011_1111];
+    if (i + 1 < bytes.length)
+      chars[len++] = BASE64URL_ALPHABET[(packet >>> 6) & 0b0011_1111];
+    if (i + 2 < bytes.length)
+      chars[len++] = BASE64URL_ALPHABET[packet & 0b0011_1111];
+  }
+
+  return chars.join('');
+};
+
+/**
+ * Decodes the specified base64url character to
+ * its 6-bit value
+ *
+ * @param char  The base64url character
+ * @returns     The decoded bits
  */
-const base64urlChar = (b: number): string => {
-  const r = (b & 0b0011_1111) >>> 0;
+const base64urlCharValue = (char: string): number => {
+  const c = char.charCodeAt(0);
 
   // Uppercase letters
-  if (r <= 25) return String.fromCharCode(65 + r);
+  if (c >= 65 && c <= 90) return c - 65;
+
+  // Lowercase letters
+  if (c >= 97 && c <= 122) return c - 97 + 26;
 
   // Numbers
-  if (r <= 51) return String.fromCharCode(97 + r - 26);
+  if (c >= 48 && c <= 57) return c - 48 + 52;
 
-  // Lowercase letters
-  if (r <= 61) return String.fromCharCode(48 + r - 52);
+  // Plus (+) and minus (-) both map to 62 so that
+  // regular base64 input is accepted as well
+  if (char === '-' || char === '+') return 62;
 
-  // Plus (+) in Base64 is replaced with '-'
-  // in a Base64 URL
-  if (r === 62) return '-';
+  // Slash (/) and underscore (_) both map to 63
+  if (char === '_' || char === '/') return 63;
 
-  // Slash (/) in Base64 is replaced with '_'
-  // in a Base64 URL
-  return '_';
+  throw new Error(`Invalid base64url char: ${char}`);
 };
 
 /**
- * Encodes the specified array of bytes to
- * its base64url representation
+ * Decodes the specified base64url string to
+ * an array of bytes
  *
- * @param bytes  The bytes
- * @returns      The base64url string
+ * @param str  The base64url string (padding is optional)
+ * @returns    The decoded bytes
  */
-const base64urlEncode = (bytes: number[]): string => {
+const base64urlDecode = (str: string): Uint8Array => {
+  const s = str.replace(/=+$/, '');
+  const res = new Uint8Array(Math.floor((s.length * 6) / 8));
+  let len = 0;
+
+  for (let i = 0, acc = 0, bits = 0; i < s.length; i++) {
+    acc = ((acc << 6) | base64urlCharValue(s[i])) & 0xfff;
+    bits += 6;
+
+    if (bits >= 8) {
+      bits -= 8;
+      res[len++] = (acc >>> bits) & 0xff;
+    }
+  }
+
+  return res;
+};
+
+/**
+ * UTF-8 decodes the specified array of bytes
+ *
+ * @param bytes  The encoded bytes
+ * @returns      The decoded message
+ */
+const utf8decode = (bytes: ArrayLike<number>): string => {
   let res = '';
 
-  for (let i = 0; i < bytes.length; i += 3) {
-    // Iterate through 3-byte packets to have
-    // a multiple of 6 bits
-    for (let j = 0, carry = 0; j < 3; j++) {
-      if (i + j >= bytes.length) {
-        // If there are no words left return the result
-        res += base64urlChar(carry);
-        return res;
-      }
-
-      const p = bytes[i + j];
-
-      // Encode the current byte
-      res += base64urlChar(carry | (p >>> (2 + j * 2)));
-
-      // Update the carry
-      if (j === 0) carry = (p & 0b0_0011) << 4;
-      else if (j === 1) carry = (p & 0b0_1111) << 2;
-      else res += base64urlChar(p);
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i];
+
+    // Byte 1 0b0xxx_xxxx
+    if (b < 0x80) {
+      res += String.fromCharCode(b);
+    }
+
+    // Byte 1 0b110x_xxxx
+    else if (b >>> 5 === 0b110) {
+      res += String.fromCharCode(((b & 0b1_1111) << 6) | low6(bytes[++i]));
+    }
+
+    // Byte 1 0b1110_xxxx
+    else if (b >>> 4 === 0b1110) {
+      res += String.fromCharCode(
+        ((b & 0b1111) << 12) | (low6(bytes[++i]) << 6) | low6(bytes[++i]),
+      );
+    }
+
+    // Byte 1 0b1111_0xxx
+    else {
+      const codePoint =
+        ((b & 0b0111) << 18) |
+        (low6(bytes[++i]) << 12) |
+        (low6(bytes[++i]) << 6) |
+        low6(bytes[++i]);
+
+      // Re-apply the UTF-16 encoding
+      const surrogate = codePoint - 0x10000;
+      res += String.fromCharCode(
+        0xd800 | (surrogate >>> 10),
+        0xdc00 | (surrogate & 0x3ff),
+      );
     }
   }
 
   return res;
 };
 
-export { utf8encode, base64urlEncode, parseHexString };
+export {
+  utf8encode,
+  utf8decode,
+  base64urlEncode,
+  base64urlDecode,
+  parseHexString,
+  hexEncode,
+};
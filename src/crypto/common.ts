@@ -4,42 +4,40 @@
 const BLOCK_SIZE = 512;
 
 /**
- * Converts an array of 8-bit bytes to an array
- * of 32-bit words
+ * Converts an array of 32-bit words to an array
+ * of 8-bit bytes
  *
- * @param arr  The array of 8-bit bytes
- * @returns    The array of 32-bit words
+ * @param arr  The array of 32-bit words
+ * @returns    The array of 8-bit words
  */
-const byteArrayToWordArray = (arr: number[]): number[] => {
-  const res = [];
-  for (let i = 0; i < arr.length; i += 4) {
-    res.push(
-      ((arr[i] << 24) | (arr[i + 1] << 16) | (arr[i + 2] << 8) | arr[i + 3]) >>>
-        0,
-    );
+const wordArrayToByteArray = (arr: Uint32Array): Uint8Array => {
+  const res = new Uint8Array(arr.length * 4);
+
+  for (let i = 0; i < arr.length; i++) {
+    res[i * 4] = arr[i] >>> 24;
+    res[i * 4 + 1] = arr[i] >>> 16;
+    res[i * 4 + 2] = arr[i] >>> 8;
+    res[i * 4 + 3] = arr[i];
   }
+
   return res;
 };
 
 /**
- * Converts an array of 32-bit words to an array
- * of 8-bit bytes
+ * Concatenates the specified byte arrays
  *
- * @param arr  The array of 32-bit words
- * @returns    The array of 8-bit words
+ * @param arrays  The byte arrays
+ * @returns       The concatenated byte array
  */
-const wordArrayToByteArray = (arr: number[]): number[] => {
-  const res = [];
-  for (let i = 0; i < arr.length; i++) {
-    res.push(
-      (arr[i] >> 24) & 0xff,
-      (arr[i] >> 16) & 0xff,
-      (arr[i] >> 8) & 0xff,
-      arr[i] & 0xff,
-    );
+const concatBytes = (...arrays: Uint8Array[]): Uint8Array => {
+  const res = new Uint8Array(arrays.reduce((len, a) => len + a.length, 0));
+
+  for (let i = 0, offset = 0; i < arrays.length; i++) {
+    res.set(arrays[i], offset);
+    offset += arrays[i].length;
   }
 
   return res;
 };
 
-export { BLOCK_SIZE, byteArrayToWordArray, wordArrayToByteArray };
+export { BLOCK_SIZE, concatBytes, wordArrayToByteArray };
@@ -1,49 +1,94 @@
-import sha256 from './sha256.js';
-import { BLOCK_SIZE, wordArrayToByteArray } from './common.js';
+import sha256, { Sha256State, sha256Update } from './sha256.js';
+import { BLOCK_SIZE, concatBytes, wordArrayToByteArray } from './common.js';
 
 /**
- * Pads the specified byte-array to the block size
+ * Gets the block-padded key
  *
- * @param arr  The array
- * @param val  The value to pad the array with
- * @returns    The padded array
+ * @param keyBytes  The key bytes
+ * @returns         The padded key
  */
-const blockPad = (arr: number[], val = 0): number[] => {
-  return [
-    ...arr,
-    ...new Array<number>((BLOCK_SIZE - arr.length * 8) / 8).fill(val),
-  ];
+const getBlockKey = (keyBytes: Uint8Array): Uint8Array => {
+  const res = new Uint8Array(BLOCK_SIZE / 8);
+
+  if (keyBytes.length * 8 > BLOCK_SIZE)
+    res.set(wordArrayToByteArray(sha256(keyBytes)));
+  else res.set(keyBytes);
+
+  return res;
 };
 
 /**
- * Gets the block-padded key
- *
- * @param keyBytes  The key bytes
- * @returns         The padded key
+ * The precomputed HMAC state for messages sharing a
+ * common prefix
  */
-const getBlockKey = (keyBytes: number[]): number[] => {
-  if (keyBytes.length * 8 === BLOCK_SIZE) return keyBytes;
-  if (keyBytes.length * 8 > BLOCK_SIZE) return blockPad(sha256(keyBytes));
-  return blockPad(keyBytes);
+type HmacState = {
+  /**
+   * The inner hash state after consuming the inner padded
+   * key and the complete blocks of the prefix
+   */
+  inner: Sha256State;
+
+  /**
+   * The remaining bytes of the prefix
+   */
+  innerRest: Uint8Array;
+
+  /**
+   * The outer hash state after consuming the outer padded key
+   */
+  outer: Sha256State;
 };
 
 /**
- * Creates the HMAC of the specified message
+ * Precomputes the HMAC state for the specified key and
+ * message prefix
  *
- * @param key      The key (byte-array)
- * @param message  The message (byte-array)
- * @returns        The HMAC as array of 32 bit words
+ * @param key     The key (byte-array)
+ * @param prefix  The message prefix (byte-array)
+ * @returns       The HMAC state
  */
-const hmac = (key: number[], message: number[]): number[] => {
+const hmacInit = (
+  key: Uint8Array,
+  prefix: Uint8Array = new Uint8Array(0),
+): HmacState => {
   const bK = getBlockKey(key);
 
   const oPad = bK.map((v) => v ^ 0x5c);
   const iPad = bK.map((v) => v ^ 0x36);
 
-  return sha256([
-    ...oPad,
-    ...wordArrayToByteArray(sha256([...iPad, ...message])),
-  ]);
+  const [inner, innerRest] = sha256Update(concatBytes(iPad, prefix));
+  const [outer] = sha256Update(oPad);
+
+  return { inner, innerRest, outer };
+};
+
+/**
+ * Creates the HMAC of the specified message using a
+ * precomputed state
+ *
+ * @param state    The HMAC state
+ * @param message  The message following the prefix (byte-array)
+ * @returns        The HMAC as array of 32 bit words
+ */
+const hmacFinal = (state: HmacState, message: Uint8Array): Uint32Array => {
+  return sha256(
+    wordArrayToByteArray(
+      sha256(concatBytes(state.innerRest, message), state.inner),
+    ),
+    state.outer,
+  );
+};
+
+/**
+ * Creates the HMAC of the specified message
+ *
+ * @param key      The key (byte-array)
+ * @param message  The message (byte-array)
+ * @returns        The HMAC as array of 32 bit words
+ */
+const hmac = (key: Uint8Array, message: Uint8Array): Uint32Array => {
+  return hmacFinal(hmacInit(key), message);
 };
 
 export default hmac;
+export { HmacState, hmacInit, hmacFinal };
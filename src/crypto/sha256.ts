@@ -1,11 +1,11 @@
-import { byteArrayToWordArray, BLOCK_SIZE } from './common.js';
+import { BLOCK_SIZE } from './common.js';
 
-const HASH_VALUES: number[] = [
+const HASH_VALUES = Uint32Array.from([
   0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
   0x1f83d9ab, 0x5be0cd19,
-];
+]);
 
-const ROUND_CONSTANTS = [
+const ROUND_CONSTANTS = Uint32Array.from([
   0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
   0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
   0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
@@ -17,7 +17,34 @@ const ROUND_CONSTANTS = [
   0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
   0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
   0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
-];
+]);
+
+/**
+ * The block size in bytes
+ */
+const BLOCK_BYTES = BLOCK_SIZE / 8;
+
+/**
+ * The message schedule, reused across all chunks
+ */
+const W = new Uint32Array(64);
+
+/**
+ * The intermediate state of a SHA256 calculation
+ */
+type Sha256State = {
+  /**
+   * The hash values after processing the consumed blocks
+   */
+  hash: Uint32Array;
+
+  /**
+   * The number of bytes consumed
+   */
+  length: number;
+};
+
+const INITIAL_STATE: Sha256State = { hash: HASH_VALUES, length: 0 };
 
 /**
  * Rotates the word right by the specified number of bits
@@ -31,56 +58,45 @@ const rotr = (word: number, cnt: number): number => {
 };
 
 /**
- * Prepares the message for chunking
+ * Processes the 64-byte chunk at the specified offset and
+ * updates the hash values in place
  *
- * @param bytes  The message bytes
- * @returns      The padded message (32-bit word array)
+ * @param bytes   The message bytes
+ * @param offset  The offset of the chunk
+ * @param hv      The hash values
  */
-const prepareMessage = (bytes: number[]): number[] => {
-  const msgLen = bytes.length * 8;
-
-  // Append '1' bit
-  bytes.push(0b1000_0000);
-
-  // Add '0'-Padding
-  const padding =
-    ((BLOCK_SIZE - ((bytes.length * 8 + 64) % BLOCK_SIZE)) % BLOCK_SIZE) / 8 +
-    4;
-
-  bytes.push(...new Array(padding).fill(0));
-
-  // Append the length of the original message as 64 bit integer
-  for (let i = 3; i >= 0; i--) {
-    bytes.push((msgLen >>> (i * 8)) & 0xff);
-  }
-
-  // Convert the byte array to a word array
-  return byteArrayToWordArray(bytes);
-};
-
-const processChunk = (chunk: number[], hv: number[]): number[] => {
-  const w: number[] = new Array(64).fill(0);
-
+const processChunk = (
+  bytes: Uint8Array,
+  offset: number,
+  hv: Uint32Array,
+): void => {
   // Copy chunk into first 16 words
-  for (let i = 0; i < chunk.length; i++) w[i] = chunk[i];
+  for (let i = 0; i < 16; i++) {
+    const o = offset + i * 4;
+    W[i] =
+      (bytes[o] << 24) |
+      (bytes[o + 1] << 16) |
+      (bytes[o + 2] << 8) |
+      bytes[o + 3];
+  }
 
   // Extend the schedule array
   for (let i = 16; i < 64; i++) {
-    const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
-    const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
-    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    const s0 = rotr(W[i - 15], 7) ^ rotr(W[i - 15], 18) ^ (W[i - 15] >>> 3);
+    const s1 = rotr(W[i - 2], 17) ^ rotr(W[i - 2], 19) ^ (W[i - 2] >>> 10);
+    W[i] = W[i - 16] + s0 + W[i - 7] + s1;
   }
 
   // Compress the chunk
   let [a, b, c, d, e, f, g, h] = hv;
 
-  for (let i = 0; i < w.length; i++) {
+  for (let i = 0; i < 64; i++) {
     const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
     const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
     const ch = (e & f) ^ (~e & g);
     const maj = (a & b) ^ (a & c) ^ (b & c);
 
-    const tmp1 = h + s1 + ch + ROUND_CONSTANTS[i] + w[i];
+    const tmp1 = h + s1 + ch + ROUND_CONSTANTS[i] + W[i];
     const tmp2 = s0 + maj;
 
     h = g;
@@ -93,16 +109,35 @@ const processChunk = (chunk: number[], hv: number[]): number[] => {
     a = (tmp1 + tmp2) >>> 0;
   }
 
-  return [
-    (hv[0] + a) >>> 0,
-    (hv[1] + b) >>> 0,
-    (hv[2] + c) >>> 0,
-    (hv[3] + d) >>> 0,
-    (hv[4] + e) >>> 0,
-    (hv[5] + f) >>> 0,
-    (hv[6] + g) >>> 0,
-    (hv[7] + h) >>> 0,
-  ];
+  hv[0] += a;
+  hv[1] += b;
+  hv[2] += c;
+  hv[3] += d;
+  hv[4] += e;
+  hv[5] += f;
+  hv[6] += g;
+  hv[7] += h;
+};
+
+/**
+ * Consumes all complete blocks of the specified bytes, such
+ * that the state can be reused for messages sharing the
+ * same prefix.
+ *
+ * @param bytes  The byte array
+ * @param state  The state to continue from
+ * @returns      The updated state and the unconsumed bytes
+ */
+const sha256Update = (
+  bytes: Uint8Array,
+  state: Sha256State = INITIAL_STATE,
+): [Sha256State, Uint8Array] => {
+  const end = bytes.length - (bytes.length % BLOCK_BYTES);
+  const hash = state.hash.slice();
+
+  for (let i = 0; i < end; i += BLOCK_BYTES) processChunk(bytes, i, hash);
+
+  return [{ hash, length: state.length + end }, bytes.subarray(end)];
 };
 
 /**
@@ -110,22 +145,34 @@ const processChunk = (chunk: number[], hv: number[]): number[] => {
  * byte array
  *
  * @param bytes  The byte array
+ * @param state  The state to continue from
  * @returns      The SHA256 as 32-bit word array
  */
-const sha256 = (bytes: number[]): number[] => {
-  const pm = prepareMessage(bytes);
-  const chunkCount = (pm.length * 32) / BLOCK_SIZE;
-  let hash: number[] = HASH_VALUES;
-
-  for (let cIdx = 0; cIdx < chunkCount; cIdx++) {
-    const c: number[] = [];
-    for (let i = 0; i < BLOCK_SIZE / 32; i++) {
-      c.push(pm.shift() as number);
-    }
-    hash = processChunk(c, hash);
-  }
+const sha256 = (
+  bytes: Uint8Array,
+  state: Sha256State = INITIAL_STATE,
+): Uint32Array => {
+  const [{ hash, length }, rest] = sha256Update(bytes, state);
+
+  // Append the '1' bit and the '0'-padding to the remaining bytes such
+  // that there is room for the 64 bit message length
+  const tail = new Uint8Array(
+    rest.length + 9 > BLOCK_BYTES ? BLOCK_BYTES * 2 : BLOCK_BYTES,
+  );
+  tail.set(rest);
+  tail[rest.length] = 0b1000_0000;
+
+  // Append the length of the original message as 64 bit integer
+  const msgLen = (length + rest.length) * 8;
+  const view = new DataView(tail.buffer);
+  view.setUint32(tail.length - 8, Math.floor(msgLen / 0x1_0000_0000));
+  view.setUint32(tail.length - 4, msgLen >>> 0);
+
+  for (let i = 0; i < tail.length; i += BLOCK_BYTES)
+    processChunk(tail, i, hash);
 
   return hash;
 };
 
 export default sha256;
+export { Sha256State, sha256Update };
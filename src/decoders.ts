@@ -0,0 +1,205 @@
+import { decode as adjust } from './transformers/adjust.js';
+import { decode as autoRotate } from './transformers/auto-rotate.js';
+import { decode as background } from './transformers/background.js';
+import { decode as backgroundAlpha } from './transformers/background-alpha.js';
+import { decode as blur } from './transformers/blur.js';
+import { decode as blurDetections } from './transformers/blur-detections.js';
+import { decode as brightness } from './transformers/brightness.js';
+import { decode as cacheBuster } from './transformers/cache-buster.js';
+import { decode as contrast } from './transformers/contrast.js';
+import { decode as crop } from './transformers/crop.js';
+import { decode as disableAnimation } from './transformers/disable-animation.js';
+import { decode as dpr } from './transformers/dpr.js';
+import { decode as drawDetections } from './transformers/draw-detections.js';
+import { decode as enforceThumbnail } from './transformers/enforce-thumbnail.js';
+import { decode as enlarge } from './transformers/enlarge.js';
+import { decode as expires } from './transformers/expires.js';
+import { decode as extend } from './transformers/extend.js';
+import { decode as extendAspectRatio } from './transformers/extend-aspect-ratio.js';
+import { decode as fallbackImageUrl } from './transformers/fallback-image-url.js';
+import { decode as fileName } from './transformers/filename.js';
+import { decode as format } from './transformers/format.js';
+import { decode as formatQuality } from './transformers/format-quality.js';
+import { decode as gifOptions } from './transformers/gif-options.js';
+import { decode as gradient } from './transformers/gradient.js';
+import { decode as gravity } from './transformers/gravity.js';
+import { decode as jpegOptions } from './transformers/jpeg-options.js';
+import { decode as keepCopyright } from './transformers/keep-copypright.js';
+import { decode as maxBytes } from './transformers/max-bytes.js';
+import { decode as minHeight } from './transformers/min-height.js';
+import { decode as minWidth } from './transformers/min-width.js';
+import { decode as pad } from './transformers/pad.js';
+import { decode as page } from './transformers/page.js';
+import { decode as pixelate } from './transformers/pixelate.js';
+import { decode as pngOptions } from './transformers/png-options.js';
+import { decode as preset } from './transformers/preset.js';
+import { decode as quality } from './transformers/quality.js';
+import { decode as raw } from './transformers/raw.js';
+import { decode as resize } from './transformers/resize.js';
+import { decode as resizingAlgorithm } from './transformers/resizing-algorithm.js';
+import { decode as returnAttachment } from './transformers/return-attachment.js';
+import { decode as rotate } from './transformers/rotate.js';
+import { decode as saturation } from './transformers/saturation.js';
+import { decode as sharpen } from './transformers/sharpen.js';
+import { decode as skipProcessing } from './transformers/skip-processing.js';
+import { decode as stripColorProfile } from './transformers/strip-color-profile.js';
+import { decode as stripMetadata } from './transformers/strip-metadata.js';
+import { decode as style } from './transformers/style.js';
+import { decode as trim } from './transformers/trim.js';
+import { decode as unsharpen } from './transformers/unsharpen.js';
+import { decode as videoThumbnailSecond } from './transformers/video-thumbnail-second.js';
+import { decode as watermark } from './transformers/watermark.js';
+import { decode as watermarkShadow } from './transformers/watermark-shadow.js';
+import { decode as watermarkSize } from './transformers/watermark-size.js';
+import { decode as watermarkText } from './transformers/watermark-text.js';
+import { decode as watermarkUrl } from './transformers/watermark-url.js';
+import { decode as zoom } from './transformers/zoom.js';
+
+import { ModifierName } from './option-names.js';
+import { ParamBuilder } from './param-builder.js';
+import {
+  CustomModifierName,
+  PluginOptions,
+  decodePlugin,
+  getPlugin,
+} from './plugins.js';
+
+/**
+ * The built-in modifiers whose methods have more than one
+ * parameter
+ */
+type MultiParamModifierName = {
+  [K in ModifierName]: Parameters<ParamBuilder[K]>['length'] extends 0 | 1
+    ? never
+    : K;
+}[ModifierName];
+
+/**
+ * The options of the specified modifier as returned by
+ * `get()`, i.e. the first argument of its method, or true if
+ * the method was called without arguments.
+ *
+ * For methods with more than one parameter and for custom
+ * modifiers, all arguments are returned.
+ */
+type ModifierOptions<K extends ModifierName | CustomModifierName> =
+  K extends CustomModifierName
+    ? PluginOptions<K>
+    : Parameters<ParamBuilder[K]> extends []
+    ? true
+    : Parameters<ParamBuilder[K]> extends [unknown]
+    ? Parameters<ParamBuilder[K]>[0]
+    : Parameters<ParamBuilder[K]> extends [unknown?]
+    ? Exclude<Parameters<ParamBuilder[K]>[0], undefined> | true
+    : Parameters<ParamBuilder[K]>;
+
+/**
+ * The built-in modifiers whose options are returned as all
+ * arguments
+ */
+const MULTI_PARAM_MODIFIERS: { [K in MultiParamModifierName]: true } = {
+  fileName: true,
+};
+
+/**
+ * The decoders of the stringified modifiers, returning the
+ * arguments of the param builder method producing them
+ */
+const DECODERS: {
+  [K in ModifierName]: (param: string) => Parameters<ParamBuilder[K]>;
+} = {
+  adjust,
+  autoRotate,
+  background,
+  backgroundAlpha,
+  blur,
+  blurDetections,
+  brightness,
+  cacheBuster,
+  contrast,
+  crop,
+  disableAnimation,
+  dpr,
+  drawDetections,
+  enforceThumbnail,
+  enlarge,
+  expires,
+  extend,
+  extendAspectRatio,
+  fallbackImageUrl,
+  fileName,
+  format,
+  formatQuality,
+  gifOptions,
+  gradient,
+  gravity,
+  jpegOptions,
+  keepCopyright,
+  maxBytes,
+  minHeight,
+  minWidth,
+  pad,
+  page,
+  pixelate,
+  pngOptions,
+  preset,
+  quality,
+  raw,
+  resize,
+  resizingAlgorithm,
+  returnAttachment,
+  rotate,
+  saturation,
+  sharpen,
+  skipProcessing,
+  stripColorProfile,
+  stripMetadata,
+  style,
+  trim,
+  unsharpen,
+  videoThumbnailSecond,
+  watermark,
+  watermarkShadow,
+  watermarkSize,
+  watermarkText,
+  watermarkUrl,
+  zoom,
+};
+
+/**
+ * Decodes the stringified modifier into the arguments of the
+ * param builder method producing it, the reverse of the
+ * transformers
+ *
+ * @param modifier  The modifier
+ * @param param     The stringified modifier, e.g. `rs:fit:300:200`
+ * @returns         The arguments, e.g. `[{ type: 'fit', width: 300, height: 200 }]`
+ */
+const decodeModifier = <K extends ModifierName>(
+  modifier: K,
+  param: string,
+): Parameters<ParamBuilder[K]> => DECODERS[modifier](param);
+
+/**
+ * Decodes the options of the specified modifier as returned by
+ * `get()`
+ *
+ * @param modifier  The modifier
+ * @param param     The stringified modifier, e.g. `rs:fit:300:200`
+ * @returns         The options, e.g. `{ type: 'fit', width: 300, height: 200 }`
+ */
+const decodeOptions = <K extends ModifierName | CustomModifierName>(
+  modifier: K,
+  param: string,
+): ModifierOptions<K> => {
+  const plugin = getPlugin(modifier);
+  if (plugin) return decodePlugin(plugin, param) as ModifierOptions<K>;
+
+  const options: unknown[] = decodeModifier(modifier as ModifierName, param);
+  if (Object.hasOwn(MULTI_PARAM_MODIFIERS, modifier))
+    return options as ModifierOptions<K>;
+
+  return (options.length ? options[0] : true) as ModifierOptions<K>;
+};
+
+export { ModifierOptions, decodeModifier, decodeOptions };
@@ -0,0 +1,267 @@
+import { ModifierOptions, decodeModifier, decodeOptions } from './decoders.js';
+import { isCustomModifierName, isModifierName } from './json.js';
+import { ModifierName } from './option-names.js';
+import { ParamBuilder } from './param-builder.js';
+import { ParseOptions, parseUrl } from './parser.js';
+import { CustomModifierName } from './plugins.js';
+
+/**
+ * A modifier which was added or removed
+ */
+type ModifierValue = {
+  [K in ModifierName | CustomModifierName]: {
+    /**
+     * The modifier
+     */
+    modifier: K;
+
+    /**
+     * The decoded options, see `ParamBuilder.get()`
+     */
+    value: ModifierOptions<K>;
+
+    /**
+     * The index of the pipeline, if either builder or URL has
+     * chained pipelines
+     */
+    pipeline?: number;
+  };
+}[ModifierName | CustomModifierName];
+
+/**
+ * A modifier whose options were changed
+ */
+type ModifierChange = {
+  [K in ModifierName | CustomModifierName]: {
+    /**
+     * The modifier
+     */
+    modifier: K;
+
+    /**
+     * The decoded options before the change
+     */
+    before: ModifierOptions<K>;
+
+    /**
+     * The decoded options after the change
+     */
+    after: ModifierOptions<K>;
+
+    /**
+     * The index of the pipeline, if either builder or URL has
+     * chained pipelines
+     */
+    pipeline?: number;
+  };
+}[ModifierName | CustomModifierName];
+
+/**
+ * The differences between the modifiers of two builders
+ */
+type BuilderDiff = {
+  /**
+   * The modifiers which are only applied by the second builder
+   */
+  added: ModifierValue[];
+
+  /**
+   * The modifiers which are only applied by the first builder
+   */
+  removed: ModifierValue[];
+
+  /**
+   * The modifiers which are applied by both builders with
+   * different options
+   */
+  changed: ModifierChange[];
+};
+
+/**
+ * A param builder or an imgproxy URL
+ */
+type DiffInput =
+  | { readonly modifiers: ReadonlyMap<keyof ParamBuilder, string> }
+  | string;
+
+/**
+ * A decoded modifier
+ */
+type DecodedModifier = {
+  /**
+   * The decoded options, see `ParamBuilder.get()`
+   */
+  value: ModifierOptions<ModifierName | CustomModifierName>;
+
+  /**
+   * All arguments of the method, which are compared
+   */
+  args: unknown;
+};
+
+/**
+ * Returns the modifiers of each pipeline of the specified
+ * builder or URL
+ *
+ * @param input    The param builder or the imgproxy URL
+ * @param options  The parse options
+ * @returns        The modifiers of each pipeline
+ */
+const toPipelines = (
+  input: DiffInput,
+  options?: ParseOptions,
+): Array<ReadonlyMap<keyof ParamBuilder, string>> => {
+  if (typeof input === 'string') return parseUrl(input, options).pipelines;
+
+  const entries = Array.from(input.modifiers);
+  const idx = entries.findIndex(
+    ([modifier]) => (modifier as string) === 'chain',
+  );
+  if (idx < 0) return [input.modifiers];
+
+  // The modifiers applied before or after the chain belong to
+  // its first or last pipeline
+  const pipelines = parseUrl(entries[idx][1]).pipelines;
+  pipelines[0] = new Map([...entries.slice(0, idx), ...pipelines[0]]);
+  pipelines.push(
+    new Map([...(pipelines.pop() ?? []), ...entries.slice(idx + 1)]),
+  );
+
+  return pipelines;
+};
+
+/**
+ * Decodes the options of each modifier of the specified
+ * pipeline
+ *
+ * @param modifiers  The modifiers of the pipeline
+ * @returns          The decoded modifiers by name
+ */
+const decodePipeline = (
+  modifiers: ReadonlyMap<keyof ParamBuilder, string>,
+): Map<ModifierName | CustomModifierName, DecodedModifier> => {
+  const res: ReturnType<typeof decodePipeline> = new Map();
+
+  for (const [modifier, param] of modifiers) {
+    if (isModifierName(modifier))
+      res.set(modifier, {
+        value: decodeOptions(modifier, param),
+        args: decodeModifier(modifier, param),
+      });
+    else if (isCustomModifierName(modifier)) {
+      // The options of custom modifiers are all arguments
+      const value = decodeOptions(modifier, param);
+      res.set(modifier, { value, args: value });
+    }
+  }
+
+  return res;
+};
+
+/**
+ * Compares the modifiers of two pipelines and adds the
+ * differences to the specified result
+ *
+ * @param a         The modifiers of the first pipeline
+ * @param b         The modifiers of the second pipeline
+ * @param pipeline  The index of the pipeline, if chained
+ * @param res       The differences
+ */
+const diffPipeline = (
+  a: ReadonlyMap<keyof ParamBuilder, string>,
+  b: ReadonlyMap<keyof ParamBuilder, string>,
+  pipeline: number | undefined,
+  res: BuilderDiff,
+): void => {
+  const before = decodePipeline(a);
+  const after = decodePipeline(b);
+  const location = pipeline == null ? {} : { pipeline };
+
+  for (const [modifier, { value, args }] of before) {
+    const next = after.get(modifier);
+    if (!next) {
+      res.removed.push({ modifier, value, ...location } as ModifierValue);
+      continue;
+    }
+
+    if (JSON.stringify(args) !== JSON.stringify(next.args))
+      res.changed.push({
+        modifier,
+        before: value,
+        after: next.value,
+        ...location,
+      } as ModifierChange);
+  }
+
+  for (const [modifier, { value }] of after)
+    if (!before.has(modifier))
+      res.added.push({ modifier, value, ...location } as ModifierValue);
+};
+
+/**
+ * Compares the modifiers of two param builders or imgproxy URLs
+ *
+ * Modifiers are compared by all arguments of their methods,
+ * such that e.g. short and long option names are considered
+ * equal. Chained pipelines are compared by their index.
+ *
+ * @param a        The first param builder or imgproxy URL
+ * @param b        The second param builder or imgproxy URL
+ * @param options  (Optional) The parse options of the URLs
+ * @returns        The added, removed and changed modifiers
+ */
+const diff = (
+  a: DiffInput,
+  b: DiffInput,
+  options?: ParseOptions,
+): BuilderDiff => {
+  const before = toPipelines(a, options);
+  const after = toPipelines(b, options);
+  const chained = before.length > 1 || after.length > 1;
+  const res: BuilderDiff = { added: [], removed: [], changed: [] };
+
+  for (let i = 0; i < Math.max(before.length, after.length); i++)
+    diffPipeline(
+      before[i] ?? new Map(),
+      after[i] ?? new Map(),
+      chained ? i : undefined,
+      res,
+    );
+
+  return res;
+};
+
+/**
+ * Formats the differences for logs, one modifier per line
+ *
+ * Added modifiers are prefixed with `+`, removed ones with `-`
+ * and changed ones with `~`, e.g. `~ quality: 80 -> 70`. The
+ * modifiers of chained pipelines are suffixed with the index of
+ * the pipeline, e.g. `~ quality[1]: 80 -> 70`.
+ *
+ * @param changes  The differences
+ * @returns        The formatted differences, empty if there
+ *                 are none
+ */
+const formatDiff = (changes: BuilderDiff): string => {
+  const format = (value: unknown): string => JSON.stringify(value);
+  const name = (c: ModifierValue | ModifierChange): string =>
+    c.pipeline == null ? c.modifier : `${c.modifier}[${c.pipeline}]`;
+
+  return [
+    ...changes.added.map((c) => `+ ${name(c)}: ${format(c.value)}`),
+    ...changes.removed.map((c) => `- ${name(c)}: ${format(c.value)}`),
+    ...changes.changed.map(
+      (c) => `~ ${name(c)}: ${format(c.before)} -> ${format(c.after)}`,
+    ),
+  ].join('\n');
+};
+
+export {
+  BuilderDiff,
+  DiffInput,
+  ModifierChange,
+  ModifierValue,
+  diff,
+  formatDiff,
+};
@@ -0,0 +1,98 @@
+import { aesCbcDecrypt, aesCbcEncrypt, AES_BLOCK_SIZE } from './crypto/aes.js';
+import {
+  base64urlDecode,
+  base64urlEncode,
+  parseHexString,
+  utf8decode,
+  utf8encode,
+} from './crypto/codec.js';
+import { concatBytes, wordArrayToByteArray } from './crypto/common.js';
+import hmac from './crypto/hmac.js';
+import { describeHexError } from './common.js';
+
+/**
+ * The source URL encryption options
+ *
+ * See https://docs.imgproxy.net/usage/encrypting_source_url for the imgproxy documentation
+ */
+type EncryptionOptions = {
+  /**
+   * The hex encoded AES key, i.e. `IMGPROXY_SOURCE_URL_ENCRYPTION_KEY`.
+   * Must be 16, 24 or 32 bytes long.
+   */
+  key: string;
+
+  /**
+   * (Optional) The hex encoded 16 byte initialization vector.
+   *
+   * Defaults to an IV derived from the key and the source URL,
+   * such that the same source URL always results in the same
+   * imgproxy URL
+   */
+  iv?: string;
+};
+
+/**
+ * Derives a deterministic initialization vector from the
+ * HMAC-SHA256 of the source URL
+ *
+ * @param key  The key bytes
+ * @param url  The source URL bytes
+ * @returns    The initialization vector
+ */
+const deriveIv = (key: Uint8Array, url: Uint8Array): Uint8Array =>
+  wordArrayToByteArray(hmac(key, url)).subarray(0, AES_BLOCK_SIZE);
+
+/**
+ * Parses the specified hex-encoded encryption parameter
+ *
+ * @param value  The hex-encoded value
+ * @param name   The name of the parameter
+ * @returns      The parsed bytes
+ */
+const parseHexParam = (value: string, name: string): Uint8Array => {
+  const error = describeHexError(value);
+  if (error) throw new Error(`Invalid encryption ${name}: ${error}`);
+
+  return parseHexString(value);
+};
+
+/**
+ * Encrypts the source URL with AES-CBC as expected by imgproxy
+ * after the `enc/` segment.
+ *
+ * @param url      The source URL
+ * @param options  The encryption options
+ * @returns        The base64url encoded IV and ciphertext
+ */
+const encryptSourceUrl = (url: string, options: EncryptionOptions): string => {
+  const key = parseHexParam(options.key, 'key');
+  const message = utf8encode(url);
+  const iv =
+    options.iv == null
+      ? deriveIv(key, message)
+      : parseHexParam(options.iv, 'IV');
+
+  return base64urlEncode(concatBytes(iv, aesCbcEncrypt(key, iv, message)));
+};
+
+/**
+ * Decrypts a source URL encrypted by `encryptSourceUrl()`
+ *
+ * @param encrypted  The base64url encoded IV and ciphertext
+ * @param key        The hex encoded AES key
+ * @returns          The source URL
+ */
+const decryptSourceUrl = (encrypted: string, key: string): string => {
+  const bytes = base64urlDecode(encrypted.replace(/\//g, ''));
+
+  return utf8decode(
+    aesCbcDecrypt(
+      parseHexParam(key, 'key'),
+      bytes.subarray(0, AES_BLOCK_SIZE),
+      bytes.subarray(AES_BLOCK_SIZE),
+    ),
+  );
+};
+
+export { EncryptionOptions, decryptSourceUrl, encryptSourceUrl };
@@ -0,0 +1,10 @@
+enum LintCode {
+  CONFLICTING_MODIFIERS = 'conflicting-modifiers',
+  MISSING_WATERMARK = 'missing-watermark',
+  FORMAT_MISMATCH = 'format-mismatch',
+  REMOVED_MODIFIER = 'removed-modifier',
+  UNSUPPORTED_MODIFIER = 'unsupported-modifier',
+  IGNORED_BY_RAW = 'ignored-by-raw',
+}
+
+export default LintCode;
@@ -0,0 +1,8 @@
+enum SignatureStatus {
+  VALID = 'valid',
+  INVALID = 'invalid',
+  UNSIGNED = 'unsigned',
+  MALFORMED = 'malformed',
+}
+
+export default SignatureStatus;
@@ -0,0 +1,317 @@
+import { ModifierOptions } from './decoders.js';
+import { ParamBuilderJSON } from './json.js';
+import { LintWarning } from './lint.js';
+import { ModifierName, OPTION_NAMES } from './option-names.js';
+import {
+  AsyncBuildOptions,
+  BuildOptions,
+  CompiledParamBuilder,
+  ParamBuilder,
+  ParamBuilderOptions,
+} from './param-builder.js';
+import { CustomModifierName, observePlugins } from './plugins.js';
+
+/**
+ * A modifier applied to (or removed from) an immutable param
+ * builder, linked to the modifiers applied before it
+ *
+ * Builders derived from the same builder share the nodes of
+ * their common history.
+ */
+type ModifierNode = {
+  /**
+   * The node of the previously applied modifier
+   */
+  readonly parent?: ModifierNode;
+
+  /**
+   * The modifier
+   */
+  readonly modifier: keyof ParamBuilder;
+
+  /**
+   * The stringified modifier or undefined if it is removed
+   */
+  readonly param?: string;
+};
+
+/**
+ * The modifier methods of an immutable param builder, returning
+ * a new builder instead of modifying the current one
+ */
+type ImmutableModifiers = {
+  readonly [K in ModifierName | CustomModifierName]: (
+    ...options: Parameters<ParamBuilder[K]>
+  ) => ImmutableParamBuilder;
+};
+
+/**
+ * A param builder which is never modified, such that it can be
+ * safely shared between modules
+ */
+type ImmutableParamBuilder = PersistentParamBuilder & ImmutableModifiers;
+
+class PersistentParamBuilder {
+  /**
+   * The last applied modifier
+   */
+  private readonly node: ModifierNode | undefined;
+
+  /**
+   * An empty param builder with the options of the param
+   * builder, which the modifiers are applied to
+   */
+  private readonly base: ParamBuilder;
+
+  /**
+   * The mutable param builder with the current modifiers, created
+   * when the modifiers are first read
+   */
+  private builder?: ParamBuilder;
+
+  static {
+    const define = (modifier: ModifierName | CustomModifierName): void => {
+      Object.defineProperty(this.prototype, modifier, {
+        value: function (this: PersistentParamBuilder, ...options: unknown[]) {
+          return this.apply(modifier, options);
+        },
+      });
+    };
+
+    for (const modifier of Object.keys(OPTION_NAMES) as ModifierName[])
+      define(modifier);
+
+    observePlugins(({ name }) => {
+      if (name in this.prototype)
+        throw new Error(`Cannot register modifier, already defined: ${name}`);
+      define(name);
+    });
+  }
+
+  public constructor(node: ModifierNode | undefined, base: ParamBuilder) {
+    this.node = node;
+    this.base = base;
+  }
+
+  /**
+   * A copy of the currently applied imgproxy modifiers
+   */
+  public get modifiers(): ReadonlyMap<keyof ParamBuilder, string> {
+    return new Map(this.resolve().modifiers);
+  }
+
+  /**
+   * Returns a new param builder without the specified modifier
+   *
+   * @param modifier  The modifier
+   * @returns         The new param builder
+   */
+  public unset(
+    this: this,
+    modifier: ModifierName | CustomModifierName,
+  ): ImmutableParamBuilder {
+    return createImmutable({ parent: this.node, modifier }, this.base);
+  }
+
+  /**
+   * Builds the imgproxy URL, see `ParamBuilder.build()`
+   *
+   * @param options  The build options
+   * @returns        The imgproxy URL
+   */
+  public build(this: this, options?: BuildOptions): string {
+    return this.resolve().build(options);
+  }
+
+  /**
+   * Builds the imgproxy URL with an asynchronous signer, see
+   * `ParamBuilder.buildAsync()`
+   *
+   * @param options  The build options
+   * @returns        The imgproxy URL
+   */
+  public buildAsync(this: this, options?: AsyncBuildOptions): Promise<string> {
+    return this.resolve().buildAsync(options);
+  }
+
+  /**
+   * Compiles the current modifiers and build options, see
+   * `ParamBuilder.compile()`
+   *
+   * @param options  The build options
+   * @returns        The compiled builder
+   */
+  public compile(
+    this: this,
+    options?: Omit<BuildOptions, 'path'>,
+  ): CompiledParamBuilder {
+    return this.resolve().compile(options);
+  }
+
+  /**
+   * Builds the imgproxy URLs for the specified images, see
+   * `ParamBuilder.buildMany()`
+   *
+   * @param paths    The paths to the target images
+   * @param options  The build options
+   * @returns        The imgproxy URLs
+   */
+  public buildMany(
+    this: this,
+    paths: string[],
+    options?: Omit<BuildOptions, 'path'>,
+  ): string[] {
+    return this.resolve().buildMany(paths, options);
+  }
+
+  /**
+   * Checks the current modifiers, see `ParamBuilder.lint()`
+   *
+   * @returns  The warnings, empty if there are none
+   */
+  public lint(this: this): LintWarning[] {
+    return this.resolve().lint();
+  }
+
+  /**
+   * Checks whether the specified modifier is applied
+   *
+   * @param modifier  The modifier
+   * @returns         True if the modifier is applied
+   */
+  public has(this: this, modifier: ModifierName | CustomModifierName): boolean {
+    return this.resolve().modifiers.has(modifier);
+  }
+
+  /**
+   * Returns the options of the specified modifier, see
+   * `ParamBuilder.get()`
+   *
+   * @param modifier  The modifier
+   * @returns         The options or undefined if the modifier
+   *                  is not applied
+   */
+  public get<K extends ModifierName | CustomModifierName>(
+    this: this,
+    modifier: K,
+  ): ModifierOptions<K> | undefined {
+    return this.resolve().get(modifier);
+  }
+
+  /**
+   * Converts the current modifiers to a versioned JSON
+   * representation, see `ParamBuilder.toJSON()`
+   *
+   * @returns  The JSON representation
+   */
+  public toJSON(this: this): ParamBuilderJSON {
+    return this.resolve().toJSON();
+  }
+
+  /**
+   * Creates a mutable param builder with a copy of the current
+   * modifiers
+   *
+   * @returns  The mutable param builder
+   */
+  public toMutable(this: this): ParamBuilder {
+    return this.resolve().clone();
+  }
+
+  /**
+   * Applies the specified modifier to a new param builder, which
+   * shares the modifiers of the current one
+   *
+   * @param modifier  The modifier
+   * @param options   The options passed to the modifier
+   * @returns         The new param builder
+   */
+  private apply(
+    modifier: ModifierName | CustomModifierName,
+    options: unknown[],
+  ): ImmutableParamBuilder {
+    // Run the modifier on an empty builder, such that the options
+    // are validated and stringified exactly like a mutable builder
+    const scratch = this.base.clone();
+    (scratch[modifier] as (...args: unknown[]) => ParamBuilder).apply(
+      scratch,
+      options,
+    );
+
+    return createImmutable(
+      { parent: this.node, modifier, param: scratch.modifiers.get(modifier) },
+      this.base,
+    );
+  }
+
+  /**
+   * Replays the linked modifiers into a mutable param builder,
+   * which is never exposed
+   *
+   * @returns  The mutable param builder
+   */
+  private resolve(): ParamBuilder {
+    if (this.builder) return this.builder;
+
+    const nodes: ModifierNode[] = [];
+    for (let node = this.node; node; node = node.parent) nodes.push(node);
+
+    const builder = this.base.clone();
+    for (const { modifier, param } of nodes.reverse()) {
+      if (param == null) builder.modifiers.delete(modifier);
+      else builder.modifiers.set(modifier, param);
+    }
+
+    this.builder = builder;
+    return builder;
+  }
+}
+
+/**
+ * Creates an immutable param builder ending with the specified
+ * modifier
+ *
+ * @param node  The last applied modifier
+ * @param base  An empty param builder with the options
+ * @returns     The immutable param builder
+ */
+const createImmutable = (
+  node: ModifierNode | undefined,
+  base: ParamBuilder,
+): ImmutableParamBuilder =>
+  new PersistentParamBuilder(node, base) as ImmutableParamBuilder;
+
+/**
+ * Creates an immutable param builder with the modifiers and
+ * the options of the specified param builder
+ *
+ * Changes to the param builder are not reflected in the
+ * immutable builder.
+ *
+ * @param builder  The param builder
+ * @returns        The immutable param builder
+ */
+const toImmutable = (builder: ParamBuilder): ImmutableParamBuilder => {
+  let node: ModifierNode | undefined;
+  for (const [modifier, param] of builder.modifiers)
+    node = { parent: node, modifier, param };
+
+  const base = builder.clone();
+  base.modifiers.clear();
+
+  return createImmutable(node, base);
+};
+
+/**
+ * Creates a new immutable param builder instance
+ *
+ * Every modifier returns a new param builder, leaving the
+ * current one untouched.
+ *
+ * @param options  (Optional) The options of the param builder
+ * @returns        The immutable param builder instance
+ */
+const ipb = (options: ParamBuilderOptions = {}): ImmutableParamBuilder =>
+  createImmutable(undefined, new ParamBuilder(new Map(), options));
+
+export { ImmutableParamBuilder, ipb, toImmutable };
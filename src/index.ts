@@ -1,9 +1,17 @@
-import pb, { ParamBuilder, BuildOptions } from './param-builder.js';
+import pb, {
+  ParamBuilder,
+  AsyncBuildOptions,
+  BuildOptions,
+  CompiledParamBuilder,
+  ParamBuilderOptions,
+} from './param-builder.js';
 
 import GradientDirection from './enums/gradient-direction.enum.js';
 import GravityType from './enums/gravity-type.enum.js';
+import LintCode from './enums/lint-code.enum.js';
 import ResizeType from './enums/resize-type.enum.js';
 import ResizingAlgorithm from './enums/resizing-algorithm.enum.js';
+import SignatureStatus from './enums/signature-status.enum.js';
 import UnsharpeningMode from './enums/unsharpening-mode.enum.js';
 import WatermarkPosition from './enums/watermark-position.enum.js';
 
@@ -55,19 +63,160 @@ import { WatermarkTextOptions } from './transformers/watermark-text.js';
 import { WatermarkUrlOptions } from './transformers/watermark-url.js';
 import { ZoomOptions } from './transformers/zoom.js';
 
-import { chain } from './utils.js';
+import {
+  ImgproxyClient,
+  ImgproxyClientConfig,
+  ImgproxyEnv,
+  createImgproxyClient,
+  fromEnv,
+} from './client.js';
+import {
+  EncryptionOptions,
+  decryptSourceUrl,
+  encryptSourceUrl,
+} from './encryption.js';
+import {
+  KeyRing,
+  RandomSource,
+  SignatureKey,
+  SignatureOptions,
+  VerifyOptions,
+  findSigningKey,
+  generateKeyPair,
+  verifySignature,
+} from './signature.js';
+import {
+  AsyncSigner,
+  NodeCryptoModule,
+  Signer,
+  SubtleCryptoModule,
+  createNodeCryptoSigner,
+  createWebCryptoSigner,
+  pureJsSigner,
+} from './signer.js';
+import { ModifierOptions } from './decoders.js';
+import {
+  BuilderDiff,
+  DiffInput,
+  ModifierChange,
+  ModifierValue,
+  diff,
+  formatDiff,
+} from './diff.js';
+import { ImmutableParamBuilder, ipb, toImmutable } from './immutable.js';
+import {
+  ChainEntry,
+  CustomModifierEntry,
+  ModifierEntry,
+  ParamBuilderJSON,
+} from './json.js';
+import { LintWarning } from './lint.js';
+import { MergeFunction, MergeOptions, MergeStrategy } from './merge.js';
+import { ImgproxyOptionError, ImgproxyTargetError } from './option-error.js';
+import { ParseOptions } from './parser.js';
+import {
+  CustomModifierName,
+  CustomModifiers,
+  ModifierPlugin,
+} from './plugins.js';
+import {
+  AzureSource,
+  GcsSource,
+  S3Source,
+  SourceLocation,
+  SwiftSource,
+  parseSource,
+  source,
+} from './source.js';
+import {
+  ImgproxyEdition,
+  ImgproxyTarget,
+  ImgproxyVersion,
+  TargetedParamBuilder,
+} from './target.js';
+import { BuilderTemplate, defineTemplate } from './template.js';
+import { chain, parse, ParseResult } from './utils.js';
 
 export default pb;
-export { chain };
+export {
+  chain,
+  createImgproxyClient,
+  createNodeCryptoSigner,
+  createWebCryptoSigner,
+  decryptSourceUrl,
+  defineTemplate,
+  diff,
+  encryptSourceUrl,
+  findSigningKey,
+  formatDiff,
+  fromEnv,
+  generateKeyPair,
+  ImgproxyOptionError,
+  ImgproxyTargetError,
+  ipb,
+  parse,
+  parseSource,
+  pureJsSigner,
+  source,
+  toImmutable,
+  verifySignature,
+};
 export {
   // Param builder itself
+  AsyncBuildOptions,
   BuildOptions,
+  BuilderDiff,
+  BuilderTemplate,
+  ChainEntry,
+  CompiledParamBuilder,
+  DiffInput,
+  EncryptionOptions,
+  ImmutableParamBuilder,
+  KeyRing,
+  LintWarning,
+  MergeFunction,
+  MergeOptions,
+  MergeStrategy,
+  ModifierChange,
+  ModifierEntry,
+  ModifierOptions,
+  ModifierValue,
   ParamBuilder,
+  ParamBuilderJSON,
+  ParamBuilderOptions,
+  ParseOptions,
+  ParseResult,
+  RandomSource,
+  SignatureKey,
+  SignatureOptions,
+  VerifyOptions,
+  // Targets
+  ImgproxyEdition,
+  ImgproxyTarget,
+  ImgproxyVersion,
+  TargetedParamBuilder,
+  // Client
+  ImgproxyClient,
+  ImgproxyClientConfig,
+  ImgproxyEnv,
+  // Sources
+  AzureSource,
+  GcsSource,
+  S3Source,
+  SourceLocation,
+  SwiftSource,
+  // Signers
+  AsyncSigner,
+  NodeCryptoModule,
+  Signer,
+  SubtleCryptoModule,
   // Enums
   GradientDirection,
   GravityType,
+  LintCode,
   ResizeType,
   ResizingAlgorithm,
+  SignatureStatus,
   UnsharpeningMode,
   WatermarkPosition,
   // Modifiers
@@ -118,4 +267,9 @@ export {
   WatermarkTextOptions,
   WatermarkUrlOptions,
   ZoomOptions,
+  // Custom modifiers
+  CustomModifierEntry,
+  CustomModifierName,
+  CustomModifiers,
+  ModifierPlugin,
 };
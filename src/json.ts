@@ -0,0 +1,230 @@
+import { decodeModifier } from './decoders.js';
+import { ModifierName, OPTION_NAMES } from './option-names.js';
+import { ParamBuilder } from './param-builder.js';
+import { parseUrl } from './parser.js';
+import {
+  CustomModifierName,
+  PluginOptions,
+  decodePlugin,
+  getPlugin,
+} from './plugins.js';
+
+/**
+ * The current version of the JSON schema.
+ *
+ * Bump when the options of a modifier change incompatibly and
+ * migrate the entries of the previous versions in
+ * `parseBuilderJSON()`, such that stored recipes keep working.
+ */
+const SCHEMA_VERSION = 1;
+
+/**
+ * A modifier applied to a param builder
+ */
+type ModifierEntry = {
+  [K in ModifierName]: {
+    /**
+     * The name of the param builder method
+     */
+    method: K;
+
+    /**
+     * The arguments passed to the method
+     */
+    options: Parameters<ParamBuilder[K]>;
+  };
+}[ModifierName];
+
+/**
+ * A custom modifier applied to a param builder
+ */
+type CustomModifierEntry = {
+  [K in CustomModifierName]: {
+    /**
+     * The name of the param builder method
+     */
+    method: K;
+
+    /**
+     * The arguments passed to the method
+     */
+    options: PluginOptions<K>;
+  };
+}[CustomModifierName];
+
+/**
+ * The chained pipelines applied to a param builder, see
+ * `chain()`
+ */
+type ChainEntry = {
+  /**
+   * The name of the modifier
+   */
+  method: 'chain';
+
+  /**
+   * The modifiers of each pipeline in order
+   */
+  pipelines: Array<Array<ModifierEntry | CustomModifierEntry>>;
+};
+
+/**
+ * The JSON representation of a param builder
+ */
+type ParamBuilderJSON = {
+  /**
+   * The version of the schema
+   */
+  version: number;
+
+  /**
+   * The applied modifiers in order
+   */
+  modifiers: Array<ModifierEntry | CustomModifierEntry | ChainEntry>;
+};
+
+/**
+ * Checks whether the specified name is a modifier method
+ *
+ * @param name  The name
+ * @returns     True if the name is a modifier method
+ */
+const isModifierName = (name: unknown): name is ModifierName =>
+  typeof name === 'string' && Object.hasOwn(OPTION_NAMES, name);
+
+/**
+ * Checks whether the specified name is the method of a
+ * registered custom modifier
+ *
+ * @param name  The name
+ * @returns     True if the name is a custom modifier method
+ */
+const isCustomModifierName = (name: unknown): name is CustomModifierName =>
+  typeof name === 'string' && getPlugin(name) != null;
+
+/**
+ * Converts the specified modifier to the arguments of its method
+ *
+ * @param method  The name of the param builder method
+ * @param param   The stringified modifier
+ * @returns       The modifier entry
+ */
+const serializeEntry = (
+  method: keyof ParamBuilder,
+  param: string,
+): ModifierEntry | CustomModifierEntry => {
+  const plugin = getPlugin(method);
+  if (plugin)
+    return {
+      method,
+      options: decodePlugin(plugin, param),
+    } as CustomModifierEntry;
+
+  if (!isModifierName(method))
+    throw new Error(`Cannot serialize modifier: ${method}`);
+
+  return { method, options: decodeModifier(method, param) } as ModifierEntry;
+};
+
+/**
+ * Converts the specified modifiers to their JSON representation
+ *
+ * Chained pipelines are split into the modifiers of each
+ * pipeline.
+ *
+ * @param modifiers  The applied modifiers
+ * @returns          The JSON representation
+ */
+const serializeModifiers = (
+  modifiers: ReadonlyMap<keyof ParamBuilder, string>,
+): ParamBuilderJSON => ({
+  version: SCHEMA_VERSION,
+  modifiers: Array.from(modifiers, ([method, param]) =>
+    (method as string) === 'chain'
+      ? {
+          method: 'chain' as const,
+          pipelines: parseUrl(param).pipelines.map((pipeline) =>
+            Array.from(pipeline, ([m, p]) => serializeEntry(m, p)),
+          ),
+        }
+      : serializeEntry(method, param),
+  ),
+});
+
+/**
+ * Validates the modifier entries of the JSON representation
+ *
+ * @param modifiers  The modifier entries
+ * @param prefix     The prefix of the reported indices
+ */
+const validateEntries = (modifiers: unknown[], prefix = ''): void =>
+  modifiers.forEach((value, idx) => {
+    const entry = value as Partial<ModifierEntry | CustomModifierEntry>;
+    const chain = value as Partial<ChainEntry>;
+
+    if (chain?.method === 'chain' && !prefix) {
+      if (
+        !Array.isArray(chain.pipelines) ||
+        !chain.pipelines.every(Array.isArray)
+      )
+        throw new Error(
+          `Invalid pipelines at index ${idx}, expected an array of arrays`,
+        );
+
+      chain.pipelines.forEach((pipeline, i) =>
+        validateEntries(pipeline, `${idx}.${i}.`),
+      );
+      return;
+    }
+
+    if (!isModifierName(entry?.method) && !isCustomModifierName(entry?.method))
+      throw new Error(
+        `Unknown method at index ${prefix}${idx}: ${entry?.method}`,
+      );
+    if (!Array.isArray(entry.options))
+      throw new Error(
+        `Invalid options at index ${prefix}${idx}, expected an array`,
+      );
+  });
+
+/**
+ * Parses and validates the JSON representation of a param
+ * builder
+ *
+ * @param json  The JSON representation or its string
+ * @returns     The validated JSON representation
+ */
+const parseBuilderJSON = (
+  json: ParamBuilderJSON | string,
+): ParamBuilderJSON => {
+  const value: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+  const { version, modifiers } = (value ?? {}) as Partial<ParamBuilderJSON>;
+
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > SCHEMA_VERSION
+  )
+    throw new Error(
+      `Unsupported schema version: ${version}, expected 1 to ${SCHEMA_VERSION}`,
+    );
+
+  if (!Array.isArray(modifiers)) throw new Error('Missing modifiers');
+
+  validateEntries(modifiers);
+
+  return { version, modifiers };
+};
+
+export {
+  ChainEntry,
+  CustomModifierEntry,
+  ModifierEntry,
+  ParamBuilderJSON,
+  SCHEMA_VERSION,
+  isCustomModifierName,
+  isModifierName,
+  parseBuilderJSON,
+  serializeModifiers,
+};
@@ -0,0 +1,150 @@
+import LintCode from './enums/lint-code.enum.js';
+import { ModifierName } from './option-names.js';
+import { ParamBuilder } from './param-builder.js';
+import {
+  ImgproxyTarget,
+  describeSupport,
+  formatTarget,
+  isSupported,
+} from './target.js';
+
+/**
+ * A warning about a combination of modifiers
+ */
+type LintWarning = {
+  /**
+   * The code identifying the kind of the warning
+   */
+  code: LintCode;
+
+  /**
+   * The modifiers causing the warning
+   */
+  modifiers: ModifierName[];
+
+  /**
+   * The description of the problem
+   */
+  message: string;
+
+  /**
+   * The suggested fix
+   */
+  suggestion: string;
+};
+
+/**
+ * The modifiers which only configure the watermark placed by
+ * `watermark()`
+ */
+const WATERMARK_MODIFIERS: ModifierName[] = [
+  'watermarkShadow',
+  'watermarkSize',
+  'watermarkText',
+  'watermarkUrl',
+];
+
+/**
+ * The format specific options and the format they apply to
+ */
+const FORMAT_OPTIONS: Array<[ModifierName, string]> = [
+  ['gifOptions', 'gif'],
+  ['jpegOptions', 'jpg'],
+  ['pngOptions', 'png'],
+];
+
+/**
+ * The modifiers which are still applied alongside `raw()`
+ */
+const RAW_COMPATIBLE_MODIFIERS: ModifierName[] = [
+  'cacheBuster',
+  'expires',
+  'fallbackImageUrl',
+  'fileName',
+  'raw',
+  'returnAttachment',
+];
+
+/**
+ * Checks the specified modifiers for combinations which
+ * conflict with each other or have no effect
+ *
+ * @param modifiers  The applied modifiers
+ * @param target     (Optional) The targeted imgproxy version
+ *                   and edition
+ * @returns          The warnings, empty if there are none
+ */
+const lintModifiers = (
+  modifiers: ReadonlyMap<keyof ParamBuilder, string>,
+  target?: ImgproxyTarget,
+): LintWarning[] => {
+  const warnings: LintWarning[] = [];
+  const has = (modifier: ModifierName): boolean => modifiers.has(modifier);
+
+  if (has('extend') && has('extendAspectRatio'))
+    warnings.push({
+      code: LintCode.CONFLICTING_MODIFIERS,
+      modifiers: ['extend', 'extendAspectRatio'],
+      message:
+        'extend and extendAspectRatio both extend the image, only one of them should be used',
+      suggestion:
+        'Remove extend to keep the aspect ratio, or extendAspectRatio to extend to the requested size',
+    });
+
+  if (!has('watermark'))
+    for (const modifier of WATERMARK_MODIFIERS.filter(has))
+      warnings.push({
+        code: LintCode.MISSING_WATERMARK,
+        modifiers: [modifier],
+        message: `${modifier} has no effect without watermark`,
+        suggestion: `Add watermark() or remove ${modifier}`,
+      });
+
+  const format = modifiers.get('format')?.split(':')[1];
+  if (format != null)
+    for (const [modifier, expected] of FORMAT_OPTIONS)
+      if (has(modifier) && format !== expected)
+        warnings.push({
+          code: LintCode.FORMAT_MISMATCH,
+          modifiers: [modifier, 'format'],
+          message: `${modifier} has no effect when the format is ${format}`,
+          suggestion: `Remove ${modifier} or change the format to ${expected}`,
+        });
+
+  if (target)
+    for (const modifier of modifiers.keys())
+      if (!isSupported(modifier, target))
+        warnings.push({
+          code: LintCode.UNSUPPORTED_MODIFIER,
+          modifiers: [modifier as ModifierName],
+          message: `${modifier} is not supported by ${formatTarget(target)}`,
+          suggestion: describeSupport(modifier, target),
+        });
+
+  if (has('gifOptions') && !target)
+    warnings.push({
+      code: LintCode.REMOVED_MODIFIER,
+      modifiers: ['gifOptions'],
+      message: 'gifOptions was removed in imgproxy 3.0.0',
+      suggestion:
+        'Remove gifOptions, the GIF optimizations are applied automatically',
+    });
+
+  if (has('raw')) {
+    const ignored = (Array.from(modifiers.keys()) as ModifierName[]).filter(
+      (m) => !RAW_COMPATIBLE_MODIFIERS.includes(m),
+    );
+
+    if (ignored.length)
+      warnings.push({
+        code: LintCode.IGNORED_BY_RAW,
+        modifiers: ['raw', ...ignored],
+        message: `raw skips the processing, ignoring: ${ignored.join(', ')}`,
+        suggestion: `Remove raw or ${ignored.join(', ')}`,
+      });
+  }
+
+  return warnings;
+};
+
+export { LintWarning, lintModifiers };
@@ -0,0 +1,114 @@
+import { decodeModifier } from './decoders.js';
+import { ModifierName, OPTION_NAMES } from './option-names.js';
+import { ParamBuilder } from './param-builder.js';
+import { CustomModifierName, decodePlugin, getPlugin } from './plugins.js';
+
+/**
+ * How a modifier applied by both builders is merged
+ *
+ * - `last`: The modifier of the last builder is kept
+ * - `first`: The modifier of the first builder is kept
+ * - `throw`: An error is thrown
+ */
+type MergeStrategy = 'first' | 'last' | 'throw';
+
+/**
+ * Merges the options of a modifier applied by both builders
+ *
+ * @param current  The options of the builder merged into
+ * @param other    The options of the merged builder
+ * @returns        The options of the merged modifier
+ */
+type MergeFunction<K extends ModifierName | CustomModifierName> = (
+  current: Parameters<ParamBuilder[K]>,
+  other: Parameters<ParamBuilder[K]>,
+) => Parameters<ParamBuilder[K]>;
+
+/**
+ * The options for merging param builders
+ */
+type MergeOptions = {
+  /**
+   * (Optional) How modifiers applied by both builders are merged.
+   *
+   * Defaults to `last`
+   */
+  strategy?: MergeStrategy;
+
+  /**
+   * (Optional) The strategy or the merge function of specific
+   * modifiers, overriding the strategy
+   */
+  modifiers?: {
+    [K in ModifierName | CustomModifierName]?: MergeStrategy | MergeFunction<K>;
+  };
+};
+
+/**
+ * Applies the modifiers of another builder to the specified
+ * builder
+ *
+ * Modifiers which are already applied keep their position. If
+ * the merge fails, the builder is left unchanged.
+ *
+ * @param builder    The builder merged into
+ * @param modifiers  The modifiers of the merged builder
+ * @param options    The merge options
+ */
+const mergeModifiers = (
+  builder: ParamBuilder,
+  modifiers: ReadonlyMap<keyof ParamBuilder, string>,
+  options: MergeOptions = {},
+): void => {
+  // Merged into a copy, such that conflicts leave the builder
+  // unchanged
+  const res = builder.clone();
+
+  for (const [modifier, param] of modifiers) {
+    const current = res.modifiers.get(modifier);
+    if (current == null || current === param) {
+      res.modifiers.set(modifier, param);
+      continue;
+    }
+
+    const plugin = getPlugin(modifier);
+    const merge =
+      plugin || Object.hasOwn(OPTION_NAMES, modifier)
+        ? options.modifiers?.[modifier as ModifierName | CustomModifierName]
+        : undefined;
+
+    if (typeof merge === 'function') {
+      const decode = (value: string): unknown[] =>
+        plugin
+          ? decodePlugin(plugin, value)
+          : decodeModifier(modifier as ModifierName, value);
+
+      (res[modifier] as (...args: unknown[]) => ParamBuilder).apply(
+        res,
+        (merge as (current: unknown[], other: unknown[]) => unknown[])(
+          decode(current),
+          decode(param),
+        ),
+      );
+      continue;
+    }
+
+    switch (merge ?? options.strategy ?? 'last') {
+      case 'first':
+        break;
+      case 'last':
+        res.modifiers.set(modifier, param);
+        break;
+      case 'throw':
+        throw new Error(
+          `Conflicting values for ${modifier}: ${current} and ${param}`,
+        );
+    }
+  }
+
+  builder.modifiers.clear();
+  for (const [modifier, param] of res.modifiers)
+    builder.modifiers.set(modifier, param);
+};
+
+export { MergeFunction, MergeOptions, MergeStrategy, mergeModifiers };
@@ -0,0 +1,73 @@
+import { ImgproxyTarget, formatTarget } from './target.js';
+
+/**
+ * Thrown in strict mode if an option is outside of the range
+ * imgproxy accepts
+ */
+class ImgproxyOptionError extends Error {
+  /**
+   * The name of the modifier, e.g. `quality`
+   */
+  public readonly modifier: string;
+
+  /**
+   * The name of the invalid argument, e.g. `percentage`
+   */
+  public readonly argument: string;
+
+  /**
+   * The description of the allowed values, e.g.
+   * `an integer between 0 and 100`
+   */
+  public readonly allowed: string;
+
+  /**
+   * The invalid value
+   */
+  public readonly value: unknown;
+
+  public constructor(
+    modifier: string,
+    argument: string,
+    allowed: string,
+    value: unknown,
+  ) {
+    super(
+      `Invalid ${argument} for ${modifier}: ${JSON.stringify(
+        value,
+      )}, expected ${allowed}`,
+    );
+
+    this.name = 'ImgproxyOptionError';
+    this.modifier = modifier;
+    this.argument = argument;
+    this.allowed = allowed;
+    this.value = value;
+  }
+}
+
+/**
+ * Thrown in strict mode if a modifier is not supported by the
+ * targeted imgproxy version or edition
+ */
+class ImgproxyTargetError extends Error {
+  /**
+   * The name of the modifier, e.g. `raw`
+   */
+  public readonly modifier: string;
+
+  /**
+   * The targeted imgproxy version and edition
+   */
+  public readonly target: ImgproxyTarget;
+
+  public constructor(modifier: string, target: ImgproxyTarget) {
+    super(`${modifier} is not supported by ${formatTarget(target)}`);
+
+    this.name = 'ImgproxyTargetError';
+    this.modifier = modifier;
+    this.target = target;
+  }
+}
+
+export { ImgproxyOptionError, ImgproxyTargetError };
@@ -0,0 +1,141 @@
+import { ParamBuilder } from './param-builder.js';
+import { resolvePlugin } from './plugins.js';
+
+/**
+ * The names of an imgproxy processing option
+ */
+type OptionName = {
+  /**
+   * The short name, as emitted by the transformers
+   */
+  short: string;
+
+  /**
+   * The full name of the option
+   */
+  long: string;
+};
+
+/**
+ * The imgproxy option names of each modifier
+ *
+ * See https://github.com/imgproxy/imgproxy/blob/6f292443eafb2e39f9252175b61faa6b38105a7c/docs/generating_the_url.md#processing-options for the imgproxy documentation
+ */
+const OPTION_NAMES = {
+  adjust: { short: 'a', long: 'adjust' },
+  autoRotate: { short: 'ar', long: 'auto_rotate' },
+  background: { short: 'bg', long: 'background' },
+  backgroundAlpha: { short: 'bga', long: 'background_alpha' },
+  blur: { short: 'bl', long: 'blur' },
+  blurDetections: { short: 'bd', long: 'blur_detections' },
+  brightness: { short: 'br', long: 'brightness' },
+  cacheBuster: { short: 'cb', long: 'cachebuster' },
+  contrast: { short: 'co', long: 'contrast' },
+  crop: { short: 'c', long: 'crop' },
+  disableAnimation: { short: 'da', long: 'disable_animation' },
+  dpr: { short: 'dpr', long: 'dpr' },
+  drawDetections: { short: 'dd', long: 'draw_detections' },
+  enforceThumbnail: { short: 'eth', long: 'enforce_thumbnail' },
+  enlarge: { short: 'el', long: 'enlarge' },
+  expires: { short: 'exp', long: 'expires' },
+  extend: { short: 'ex', long: 'extend' },
+  extendAspectRatio: { short: 'exar', long: 'extend_aspect_ratio' },
+  fallbackImageUrl: { short: 'fiu', long: 'fallback_image_url' },
+  fileName: { short: 'fn', long: 'filename' },
+  format: { short: 'f', long: 'format' },
+  formatQuality: { short: 'fq', long: 'format_quality' },
+  gifOptions: { short: 'gifo', long: 'gif_options' },
+  gradient: { short: 'gr', long: 'gradient' },
+  gravity: { short: 'g', long: 'gravity' },
+  jpegOptions: { short: 'jpgo', long: 'jpeg_options' },
+  keepCopyright: { short: 'kcr', long: 'keep_copyright' },
+  maxBytes: { short: 'mb', long: 'max_bytes' },
+  minHeight: { short: 'mh', long: 'min-height' },
+  minWidth: { short: 'mw', long: 'min-width' },
+  pad: { short: 'pd', long: 'padding' },
+  page: { short: 'pg', long: 'page' },
+  pixelate: { short: 'pix', long: 'pixelate' },
+  pngOptions: { short: 'pngo', long: 'png_options' },
+  preset: { short: 'pr', long: 'preset' },
+  quality: { short: 'q', long: 'quality' },
+  raw: { short: 'raw', long: 'raw' },
+  resize: { short: 'rs', long: 'resize' },
+  resizingAlgorithm: { short: 'ra', long: 'resizing_algorithm' },
+  returnAttachment: { short: 'att', long: 'return_attachment' },
+  rotate: { short: 'rot', long: 'rotate' },
+  saturation: { short: 'sa', long: 'saturation' },
+  sharpen: { short: 'sh', long: 'sharpen' },
+  skipProcessing: { short: 'skp', long: 'skip_processing' },
+  stripColorProfile: { short: 'scp', long: 'strip_color_profile' },
+  stripMetadata: { short: 'sm', long: 'strip_metadata' },
+  style: { short: 'st', long: 'style' },
+  trim: { short: 't', long: 'trim' },
+  unsharpen: { short: 'ush', long: 'unsharpening' },
+  videoThumbnailSecond: { short: 'vts', long: 'video_thumbnail_second' },
+  watermark: { short: 'wm', long: 'watermark' },
+  watermarkShadow: { short: 'wmsh', long: 'watermark_shadow' },
+  watermarkSize: { short: 'wms', long: 'watermark_size' },
+  watermarkText: { short: 'wmt', long: 'watermark_text' },
+  watermarkUrl: { short: 'wmu', long: 'watermark_url' },
+  zoom: { short: 'z', long: 'zoom' },
+} satisfies Partial<Record<keyof ParamBuilder, OptionName>>;
+
+/**
+ * The name of a modifier method on the param builder
+ */
+type ModifierName = keyof typeof OPTION_NAMES;
+
+/**
+ * Lookup from the short and long option names to the
+ * name of the modifier
+ */
+const MODIFIER_LOOKUP: ReadonlyMap<string, ModifierName> = new Map(
+  (Object.keys(OPTION_NAMES) as ModifierName[]).flatMap(
+    (modifier): Array<[string, ModifierName]> => [
+      [OPTION_NAMES[modifier].short, modifier],
+      [OPTION_NAMES[modifier].long, modifier],
+    ],
+  ),
+);
+
+/**
+ * Resolves the modifier for the specified option name
+ *
+ * @param name  The short or long option name
+ * @returns     The modifier or undefined if the option is unknown
+ */
+const resolveModifier = (name: string): ModifierName | undefined =>
+  MODIFIER_LOOKUP.get(name);
+
+/**
+ * Replaces the option names of the specified modifiers with
+ * their full names, e.g. `rs:fit:100` becomes `resize:fit:100`.
+ *
+ * Segments which are not options, like the `-` separating
+ * chained pipelines, are kept as they are. Custom modifiers
+ * without a long name keep their code.
+ *
+ * @param modifiers  The slash-separated modifiers
+ * @returns          The modifiers with the full option names
+ */
+const toLongOptionNames = (modifiers: string): string =>
+  modifiers
+    .split('/')
+    .map((segment) => {
+      const [name] = segment.split(':', 1);
+      const modifier = resolveModifier(name);
+      const long = modifier
+        ? OPTION_NAMES[modifier].long
+        : resolvePlugin(name)?.longName;
+
+      return long ? `${long}${segment.slice(name.length)}` : segment;
+    })
+    .join('/');
+
+export {
+  OPTION_NAMES,
+  OptionName,
+  ModifierName,
+  resolveModifier,
+  toLongOptionNames,
+};
@@ -18,7 +18,7 @@ import extend from './transformers/extend.js';
 import extendAspectRatio from './transformers/extend-aspect-ratio.js';
 import fallbackImageUrl from './transformers/fallback-image-url.js';
 import fileName from './transformers/filename.js';
-import format from './transformers/format.js';
+import format, { FORMATS, FormatOptions } from './transformers/format.js';
 import formatQuality from './transformers/format-quality.js';
 import gifOptions from './transformers/gif-options.js';
 import gradient from './transformers/gradient.js';
@@ -55,7 +55,42 @@ import watermarkText from './transformers/watermark-text.js';
 import watermarkUrl from './transformers/watermark-url.js';
 import zoom from './transformers/zoom.js';
 
-import { encodeFilePath, generateSignature } from './common.js';
+import { canonicalizeModifiers } from './canonical.js';
+import {
+  createSignatureGenerator,
+  encodeFilePath,
+  generateSignature,
+  generateSignatureAsync,
+  normalizePathPrefix,
+} from './common.js';
+import { ModifierOptions, decodeOptions } from './decoders.js';
+import { EncryptionOptions, encryptSourceUrl } from './encryption.js';
+import {
+  ParamBuilderJSON,
+  parseBuilderJSON,
+  serializeModifiers,
+} from './json.js';
+import { LintWarning, lintModifiers } from './lint.js';
+import { MergeOptions, mergeModifiers } from './merge.js';
+import {
+  ModifierName,
+  resolveModifier,
+  toLongOptionNames,
+} from './option-names.js';
+import { ImgproxyTargetError } from './option-error.js';
+import { ParseOptions, parseUrl } from './parser.js';
+import {
+  CustomModifierName,
+  ModifierPlugin,
+  PluginOptions,
+  addPlugin,
+  resolvePlugin,
+  stringifyPlugin,
+} from './plugins.js';
+import { KeyRing, SignatureOptions, resolveSigningKey } from './signature.js';
+import { AsyncSigner, Signer } from './signer.js';
+import { ImgproxyTarget, TargetedParamBuilder, isSupported } from './target.js';
+import { validateModifier } from './validation.js';
 
 /**
  * The build options
@@ -79,38 +114,371 @@ export type BuildOptions = {
   plain?: boolean;
 
   /**
-   * The signature to apply
+   * Encrypts the path with AES-CBC and appends it after an
+   * `enc/` segment, hiding the source URL from the public URL.
+   *
+   * Can't be combined with `plain`
+   */
+  encrypted?: EncryptionOptions;
+
+  /**
+   * (Optional) The extension of the resulting image, appended
+   * as `@ext` to plain paths and as `.ext` to encoded paths.
+   *
+   * Equivalent to the `format` modifier
+   */
+  extension?: FormatOptions;
+
+  /**
+   * (Optional) Splits the encoded or encrypted path into
+   * segments of the specified number of characters, separated
+   * by a slash.
+   *
+   * Has no effect on plain paths
+   */
+  chunkSize?: number;
+
+  /**
+   * (Optional) The path prefix imgproxy is configured with,
+   * i.e. `IMGPROXY_PATH_PREFIX`.
+   *
+   * The prefix precedes the signature and, as imgproxy strips it
+   * before verifying the signature, is not part of the signed path
+   */
+  pathPrefix?: string;
+
+  /**
+   * Whether imgproxy only accepts presets, i.e.
+   * `IMGPROXY_ONLY_PRESETS`.
+   *
+   * If true, the preset names are emitted without the `pr:`
+   * option name and any other modifier throws an error
+   */
+  onlyPresets?: boolean;
+
+  /**
+   * (Optional) Whether the modifiers are emitted with the short
+   * option names, e.g. `rs:fit:100`, or the full option names,
+   * e.g. `resize:fit:100`.
+   *
+   * The signature covers the emitted form. Defaults to `short`
+   */
+  optionNames?: 'short' | 'long';
+
+  /**
+   * (Optional) Whether the modifiers are emitted in a canonical
+   * order, dropping the ones equal to the imgproxy defaults such
+   * as `rotate(0)`, so that equivalent param builders produce
+   * identical URLs and signatures.
+   *
+   * Presets are emitted first. Defaults to false
+   */
+  canonical?: boolean;
+
+  /**
+   * The signature to apply, either a single key/salt pair or a
+   * key ring whose active pair is used
+   */
+  signature?: SignatureOptions | KeyRing;
+
+  /**
+   * The signer calculating the HMAC of the signature.
+   *
+   * Defaults to the bundled pure JavaScript implementation
+   */
+  signer?: Signer;
+};
+
+/**
+ * The build options of `buildAsync()`, which additionally
+ * accept asynchronous signers
+ */
+export type AsyncBuildOptions = Omit<BuildOptions, 'signer'> & {
+  /**
+   * The signer calculating the HMAC of the signature.
+   *
+   * Defaults to the bundled pure JavaScript implementation
+   */
+  signer?: Signer | AsyncSigner;
+};
+
+/**
+ * A param builder whose modifiers and signature state have
+ * been precomputed
+ */
+export type CompiledParamBuilder = {
+  /**
+   * Builds the imgproxy URL for the specified image
+   *
+   * @param path  The path to the target image
+   * @returns     The imgproxy URL
+   */
+  build: (path: string) => string;
+};
+
+/**
+ * Joins the URL components
+ *
+ * @param options    The build options
+ * @param signature  The signature or placeholder
+ * @param path       The signed path
+ * @returns          The imgproxy URL
+ */
+const joinUrl = (
+  options: Pick<BuildOptions, 'baseUrl' | 'pathPrefix'> | undefined,
+  signature: string,
+  path: string,
+): string => {
+  const prefix = normalizePathPrefix(options?.pathPrefix);
+  return `${options?.baseUrl ?? ''}${prefix}/${signature}/${path}`;
+};
+
+/**
+ * The build options affecting the encoding of the path
+ */
+type SourceOptions = Pick<
+  BuildOptions,
+  'plain' | 'encrypted' | 'extension' | 'chunkSize'
+>;
+
+/**
+ * Splits the specified string into slash-separated chunks
+ *
+ * @param str        The string
+ * @param chunkSize  The number of characters per chunk
+ * @returns          The chunked string
+ */
+const chunk = (str: string, chunkSize: number): string => {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1)
+    throw new Error(`Invalid chunk size: ${chunkSize}`);
+
+  const chunks = [];
+  for (let i = 0; i < str.length; i += chunkSize)
+    chunks.push(str.slice(i, i + chunkSize));
+
+  return chunks.join('/');
+};
+
+/**
+ * Encodes the path to the target image according to the
+ * build options
+ *
+ * @param path     The path to the target image
+ * @param options  The build options
+ * @returns        The encoded path
+ */
+const encodeSource = (path: string, options?: SourceOptions): string => {
+  const { plain, encrypted, extension, chunkSize } = options ?? {};
+
+  if (plain && encrypted)
+    throw new Error('The plain and encrypted options are mutually exclusive');
+  if (extension != null && !FORMATS.includes(extension))
+    throw new Error(`Invalid extension: ${extension}`);
+
+  if (plain) return `plain/${path}${extension ? `@${extension}` : ''}`;
+
+  const source = encrypted
+    ? encryptSourceUrl(path, encrypted)
+    : encodeFilePath(path);
+  const chunked = chunkSize == null ? source : chunk(source, chunkSize);
+  const encoded = encrypted ? `enc/${chunked}` : chunked;
+
+  return extension ? `${encoded}.${extension}` : encoded;
+};
+
+/**
+ * The options of a param builder
+ */
+type ParamBuilderOptions = {
+  /**
+   * (Optional) Whether the options of every modifier are
+   * validated against the ranges documented by imgproxy,
+   * throwing an `ImgproxyOptionError` if they are invalid.
+   *
+   * Defaults to false
    */
-  signature?: {
-    /**
-     * The hex-encoded key of the signature
-     */
-    key: string;
+  strict?: boolean;
 
-    /**
-     * The hex encoded salt of the signature
-     */
-    salt: string;
+  /**
+   * (Optional) The imgproxy version and edition the URLs are
+   * built for.
+   *
+   * Modifiers which are not supported by the target are reported
+   * by `lint()`, or throw an `ImgproxyTargetError` in strict mode.
+   */
+  target?: ImgproxyTarget;
+};
 
-    /**
-     * The number of bytes to use for the signature before encoding to Base64
-     *
-     * Defaults to 32
-     */
-    size?: number;
-  };
+/**
+ * The methods of the registered custom modifiers
+ */
+type CustomModifierMethods = {
+  [K in CustomModifierName]: (...options: PluginOptions<K>) => ParamBuilder;
 };
 
+// Adds the methods of the custom modifiers declared through
+// declaration merging of `CustomModifiers`
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+interface ParamBuilder extends CustomModifierMethods {}
+
 class ParamBuilder {
   /**
    * The currently applied imgproxy modifiers
    */
   public readonly modifiers: Map<keyof ParamBuilder, string>;
 
+  /**
+   * The options of the param builder
+   */
+  private readonly options: ParamBuilderOptions;
+
   public constructor(
     initialModifiers: Map<keyof ParamBuilder, string> = new Map(),
+    options: ParamBuilderOptions = {},
   ) {
     this.modifiers = initialModifiers;
+    this.options = options;
+  }
+
+  /**
+   * Whether the options of the modifiers are validated, see
+   * `ParamBuilderOptions.strict`
+   */
+  public get strict(): boolean {
+    return this.options.strict ?? false;
+  }
+
+  /**
+   * Creates a new param builder instance from an existing
+   * imgproxy URL
+   *
+   * Accepts a full URL, a path or the bare modifier string
+   * produced by `build()`. Both the short and the long option
+   * names are recognized.
+   *
+   * @param url      The imgproxy URL
+   * @param options  The parse options and the options of the
+   *                 param builder
+   * @returns        A param builder with the modifiers of the URL
+   */
+  public static fromUrl(
+    url: string,
+    options?: ParseOptions & ParamBuilderOptions,
+  ): ParamBuilder {
+    return new ParamBuilder(parseUrl(url, options).modifiers, {
+      strict: options?.strict,
+      target: options?.target,
+    });
+  }
+
+  /**
+   * Creates a new param builder instance from the JSON
+   * representation produced by `toJSON()`, replaying each
+   * modifier through its method
+   *
+   * @param json     The JSON representation or its string
+   * @param options  (Optional) The options of the param builder
+   * @returns        A param builder with the modifiers of the JSON
+   */
+  public static fromJSON(
+    json: ParamBuilderJSON | string,
+    options?: ParamBuilderOptions,
+  ): ParamBuilder {
+    const { version, modifiers } = parseBuilderJSON(json);
+    const builder = new ParamBuilder(new Map(), options);
+
+    for (const entry of modifiers) {
+      if (entry.method === 'chain') {
+        // Joined like the pipelines of `chain()`
+        builder.modifiers.set(
+          'chain' as keyof ParamBuilder,
+          entry.pipelines
+            .map((pipeline) =>
+              Array.from(
+                ParamBuilder.fromJSON(
+                  { version, modifiers: pipeline },
+                  options,
+                ).modifiers.values(),
+              ).join('/'),
+            )
+            .join('/-/'),
+        );
+        continue;
+      }
+
+      (builder[entry.method] as (...args: unknown[]) => ParamBuilder).apply(
+        builder,
+        entry.options,
+      );
+    }
+
+    return builder;
+  }
+
+  /**
+   * Creates a new param builder instance with the modifiers of
+   * the specified builders, applied in order
+   *
+   * The merged builder has the options of the first builder. If
+   * the last argument is not a builder, it's used as the merge
+   * options.
+   *
+   * @param a     The first builder
+   * @param b     The second builder
+   * @param rest  The remaining builders and the merge options
+   * @returns     The merged param builder
+   */
+  public static merge(
+    a: ParamBuilder,
+    b: ParamBuilder,
+    ...rest: ParamBuilder[] | [...ParamBuilder[], MergeOptions]
+  ): ParamBuilder {
+    const last = rest.at(-1);
+    const options = last instanceof ParamBuilder ? undefined : last;
+    const builders = [b, ...rest].filter(
+      (p): p is ParamBuilder => p instanceof ParamBuilder,
+    );
+
+    return builders.reduce((res, p) => res.extendWith(p, options), a.clone());
+  }
+
+  /**
+   * Registers a custom modifier, adding its method to all param
+   * builders
+   *
+   * Custom modifiers are applied, removed, parsed and serialized
+   * like the built-in ones. Declare their arguments by extending
+   * the `CustomModifiers` interface to type the method.
+   *
+   * @param plugin  The custom modifier
+   */
+  public static registerModifier<K extends CustomModifierName>(
+    plugin: ModifierPlugin<K>,
+  ): void {
+    if (plugin.name in ParamBuilder.prototype)
+      throw new Error(
+        `Cannot register modifier, already defined: ${plugin.name}`,
+      );
+
+    for (const name of [plugin.code, plugin.longName]) {
+      if (name == null) continue;
+      if (!/^[a-z\d_]+$/.test(name))
+        throw new Error(`Invalid option name: ${name}`);
+      if (resolveModifier(name) || resolvePlugin(name))
+        throw new Error(`Option name already in use: ${name}`);
+    }
+
+    addPlugin(plugin);
+    Object.defineProperty(ParamBuilder.prototype, plugin.name, {
+      value: function (this: ParamBuilder, ...options: PluginOptions<K>) {
+        if (this.options.strict) plugin.validate?.(...options);
+        this.modifiers.set(
+          plugin.name as keyof ParamBuilder,
+          stringifyPlugin(plugin, options),
+        );
+        return this;
+      },
+    });
   }
 
   /**
@@ -120,7 +488,7 @@ class ParamBuilder {
    * @returns A copy of this param builder
    */
   public clone(this: this): ParamBuilder {
-    return new ParamBuilder(new Map(this.modifiers));
+    return new ParamBuilder(new Map(this.modifiers), this.options);
   }
 
   /**
@@ -133,13 +501,43 @@ class ParamBuilder {
     this: this,
     modifier: Omit<
       keyof ParamBuilder,
-      'build' | 'unset' | 'clone' | 'modifiers'
+      | 'build'
+      | 'buildAsync'
+      | 'buildMany'
+      | 'compile'
+      | 'extendWith'
+      | 'get'
+      | 'has'
+      | 'lint'
+      | 'toJSON'
+      | 'unset'
+      | 'clone'
+      | 'modifiers'
     >,
   ): this {
     this.modifiers.delete(modifier as keyof ParamBuilder);
     return this;
   }
 
+  /**
+   * Applies the modifiers of the specified builder to the
+   * currently applied modifiers
+   *
+   * Modifiers which are already applied keep their position.
+   * By default, the modifiers of the specified builder win.
+   *
+   * @param other    The builder
+   * @param options  (Optional) The merge options
+   */
+  public extendWith(
+    this: this,
+    other: { readonly modifiers: ReadonlyMap<keyof ParamBuilder, string> },
+    options?: MergeOptions,
+  ): this {
+    mergeModifiers(this, other.modifiers, options);
+    return this;
+  }
+
   /**
    * Builds the imgproxy URL
    *
@@ -152,27 +550,246 @@ class ParamBuilder {
    * @returns        The imgproxy URL
    */
   public build(options?: BuildOptions): string {
-    const { baseUrl, path, plain, signature } = options ?? {};
-    const mods = Array.from(this.modifiers.values());
-    if (!path) return mods.join('/');
+    const res = this.buildPath(options);
+    if (!options?.path) return res;
 
-    if (path && plain) mods.push('plain', path);
-    else mods.push(encodeFilePath(path));
-
-    const res = mods.join('/');
+    const signature = options.signature
+      ? resolveSigningKey(options.signature)
+      : undefined;
 
     // If no signature is calculated add a - as placeholder
     // See https://github.com/imgproxy/imgproxy/blob/b243a08254b9ca7da2c628429cd870c111ece5c9/docs/signing_the_url.md
-    const finalPath = signature
-      ? `${generateSignature(
-          res,
+    return joinUrl(
+      options,
+      signature
+        ? generateSignature(
+            res,
+            signature.key,
+            signature.salt,
+            signature.size ?? 32,
+            options.signer,
+          )
+        : '-',
+      res,
+    );
+  }
+
+  /**
+   * Builds the imgproxy URL, allowing the signature to be
+   * calculated by an asynchronous signer such as the one
+   * backed by the Web Crypto API.
+   *
+   * The result is identical to the one of `build()`.
+   *
+   * @param options  The build options
+   * @returns        The imgproxy URL
+   */
+  public async buildAsync(options?: AsyncBuildOptions): Promise<string> {
+    const res = this.buildPath(options);
+    if (!options?.path) return res;
+
+    const signature = options.signature
+      ? resolveSigningKey(options.signature)
+      : undefined;
+
+    return joinUrl(
+      options,
+      signature
+        ? await generateSignatureAsync(
+            res,
+            signature.key,
+            signature.salt,
+            signature.size ?? 32,
+            options.signer,
+          )
+        : '-',
+      res,
+    );
+  }
+
+  /**
+   * Compiles the current modifiers and build options for
+   * building URLs of many images.
+   *
+   * The modifier string is stringified once and, unless a custom
+   * signer is specified, the HMAC state of the key, salt and
+   * modifiers is precomputed such that only the path of each
+   * image is hashed.
+   *
+   * Changes to the builder after compilation are not reflected
+   * in the compiled builder.
+   *
+   * @param options  The build options
+   * @returns        The compiled builder
+   */
+  public compile(options?: Omit<BuildOptions, 'path'>): CompiledParamBuilder {
+    const mods = this.buildPath({
+      onlyPresets: options?.onlyPresets,
+      optionNames: options?.optionNames,
+      canonical: options?.canonical,
+    });
+    const prefix = mods ? `/${mods}/` : '/';
+
+    const signature = options?.signature
+      ? resolveSigningKey(options.signature)
+      : undefined;
+
+    const sign = signature
+      ? createSignatureGenerator(
+          prefix,
           signature.key,
           signature.salt,
           signature.size ?? 32,
-        )}/${res}`
-      : `-/${res}`;
+          options?.signer,
+        )
+      : undefined;
+
+    return {
+      build: (path) => {
+        const suffix = encodeSource(path, options);
+        return joinUrl(
+          options,
+          sign ? sign(suffix) : '-',
+          `${prefix.slice(1)}${suffix}`,
+        );
+      },
+    };
+  }
 
-    return baseUrl ? `${baseUrl}/${finalPath}` : `/${finalPath}`;
+  /**
+   * Builds the imgproxy URLs for the specified images.
+   *
+   * The result is identical to calling `build()` for each path,
+   * but the modifiers and the signature state are only
+   * computed once.
+   *
+   * @param paths    The paths to the target images
+   * @param options  The build options
+   * @returns        The imgproxy URLs
+   */
+  public buildMany(
+    paths: string[],
+    options?: Omit<BuildOptions, 'path'>,
+  ): string[] {
+    const compiled = this.compile(options);
+    return paths.map((p) => compiled.build(p));
+  }
+
+  /**
+   * Checks the current modifiers for combinations which conflict
+   * with each other or have no effect
+   *
+   * @returns  The warnings, empty if there are none
+   */
+  public lint(this: this): LintWarning[] {
+    return lintModifiers(this.modifiers, this.options.target);
+  }
+
+  /**
+   * Checks whether the specified modifier is applied
+   *
+   * @param modifier  The modifier
+   * @returns         True if the modifier is applied
+   */
+  public has(this: this, modifier: ModifierName | CustomModifierName): boolean {
+    return this.modifiers.has(modifier);
+  }
+
+  /**
+   * Returns the options of the specified modifier, decoded from
+   * the applied modifiers
+   *
+   * For modifiers without options, true is returned if they
+   * are applied.
+   *
+   * @param modifier  The modifier
+   * @returns         The options or undefined if the modifier
+   *                  is not applied
+   */
+  public get<K extends ModifierName | CustomModifierName>(
+    this: this,
+    modifier: K,
+  ): ModifierOptions<K> | undefined {
+    const param = this.modifiers.get(modifier);
+    return param == null ? undefined : decodeOptions(modifier, param);
+  }
+
+  /**
+   * Converts the current modifiers to a versioned JSON
+   * representation, which can be restored with
+   * `ParamBuilder.fromJSON()`
+   *
+   * @returns  The JSON representation
+   */
+  public toJSON(this: this): ParamBuilderJSON {
+    return serializeModifiers(this.modifiers);
+  }
+
+  /**
+   * Validates the options of the specified modifier and checks
+   * whether the target supports it if the param builder is strict
+   *
+   * @param modifier  The modifier
+   * @param options   The options passed to the modifier
+   */
+  private validate<K extends ModifierName>(
+    modifier: K,
+    options: Parameters<ParamBuilder[K]>,
+  ): void {
+    if (!this.options.strict) return;
+
+    const { target } = this.options;
+    if (target && !isSupported(modifier, target))
+      throw new ImgproxyTargetError(modifier, target);
+
+    validateModifier(modifier, options);
+  }
+
+  /**
+   * Joins the modifiers and the (encoded) path to the target
+   * image, excluding the signature
+   *
+   * @param options  The build options
+   * @returns        The unsigned path
+   */
+  private buildPath(
+    options?: SourceOptions &
+      Partial<
+        Pick<BuildOptions, 'path' | 'onlyPresets' | 'optionNames' | 'canonical'>
+      >,
+  ): string {
+    const values = options?.canonical
+      ? canonicalizeModifiers(this.modifiers)
+      : Array.from(this.modifiers.values());
+    const mods = options?.onlyPresets
+      ? [this.buildPresets()]
+      : options?.optionNames === 'long'
+      ? values.map(toLongOptionNames)
+      : values;
+    if (options?.path) mods.push(encodeSource(options.path, options));
+
+    return mods.join('/');
+  }
+
+  /**
+   * Stringifies the presets for imgproxy instances which only
+   * accept presets
+   *
+   * See https://docs.imgproxy.net/usage/presets#only-presets for the imgproxy documentation
+   *
+   * @returns  The colon-separated preset names
+   */
+  private buildPresets(): string {
+    const other = Array.from(this.modifiers.keys()).filter(
+      (m) => m !== 'preset',
+    );
+    if (other.length)
+      throw new Error(`Only presets are allowed, found: ${other.join(', ')}`);
+
+    const presets = this.modifiers.get('preset');
+    if (!presets) throw new Error('At least one preset is required');
+
+    return presets.slice(presets.indexOf(':') + 1);
   }
 
   /**
@@ -190,6 +807,7 @@ class ParamBuilder {
    * ```
    */
   public adjust(this: this, ...options: Parameters<typeof adjust>): this {
+    this.validate('adjust', options);
     this.modifiers.set('adjust', adjust(...options));
     return this;
   }
@@ -205,6 +823,7 @@ class ParamBuilder {
    * ```
    */
   public autoRotate(this: this): this {
+    this.validate('autoRotate', []);
     this.modifiers.set('autoRotate', autoRotate());
     return this;
   }
@@ -229,6 +848,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof background>
   ): this {
+    this.validate('background', options);
     this.modifiers.set('background', background(...options));
     return this;
   }
@@ -247,6 +867,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof backgroundAlpha>
   ): this {
+    this.validate('backgroundAlpha', options);
     this.modifiers.set('backgroundAlpha', backgroundAlpha(...options));
     return this;
   }
@@ -262,6 +883,7 @@ class ParamBuilder {
    * ```
    */
   public blur(this: this, ...options: Parameters<typeof blur>): this {
+    this.validate('blur', options);
     this.modifiers.set('blur', blur(...options));
     return this;
   }
@@ -283,6 +905,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof blurDetections>
   ): this {
+    this.validate('blurDetections', options);
     this.modifiers.set('blurDetections', blurDetections(...options));
     return this;
   }
@@ -301,6 +924,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof brightness>
   ): this {
+    this.validate('brightness', options);
     this.modifiers.set('brightness', brightness(...options));
     return this;
   }
@@ -319,6 +943,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof cacheBuster>
   ): this {
+    this.validate('cacheBuster', options);
     this.modifiers.set('cacheBuster', cacheBuster(...options));
     return this;
   }
@@ -334,6 +959,7 @@ class ParamBuilder {
    * ```
    */
   public contrast(this: this, ...options: Parameters<typeof contrast>): this {
+    this.validate('contrast', options);
     this.modifiers.set('contrast', contrast(...options));
     return this;
   }
@@ -359,6 +985,7 @@ class ParamBuilder {
    * ```
    */
   public crop(this: this, ...options: Parameters<typeof crop>): this {
+    this.validate('crop', options);
     this.modifiers.set('crop', crop(...options));
     return this;
   }
@@ -377,6 +1004,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof disableAnimation>
   ): this {
+    this.validate('disableAnimation', options);
     this.modifiers.set('disableAnimation', disableAnimation(...options));
     return this;
   }
@@ -392,6 +1020,7 @@ class ParamBuilder {
    * ```
    */
   public dpr(this: this, ...options: Parameters<typeof dpr>): this {
+    this.validate('dpr', options);
     this.modifiers.set('dpr', dpr(...options));
     return this;
   }
@@ -413,6 +1042,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof drawDetections>
   ): this {
+    this.validate('drawDetections', options);
     this.modifiers.set('drawDetections', drawDetections(...options));
     return this;
   }
@@ -429,6 +1059,7 @@ class ParamBuilder {
    * ```
    */
   public enforceThumbnail(this: this): this {
+    this.validate('enforceThumbnail', []);
     this.modifiers.set('enforceThumbnail', enforceThumbnail());
     return this;
   }
@@ -444,6 +1075,7 @@ class ParamBuilder {
    * ```
    */
   public enlarge(this: this): this {
+    this.validate('enlarge', []);
     this.modifiers.set('enlarge', enlarge());
     return this;
   }
@@ -461,6 +1093,7 @@ class ParamBuilder {
    * ```
    */
   public expires(this: this, ...options: Parameters<typeof expires>): this {
+    this.validate('expires', options);
     this.modifiers.set('expires', expires(...options));
     return this;
   }
@@ -486,6 +1119,7 @@ class ParamBuilder {
    * ```
    */
   public extend(this: this, ...options: Parameters<typeof extend>): this {
+    this.validate('extend', options);
     this.modifiers.set('extend', extend(...options));
     return this;
   }
@@ -514,6 +1148,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof extendAspectRatio>
   ): this {
+    this.validate('extendAspectRatio', options);
     this.modifiers.set('extendAspectRatio', extendAspectRatio(...options));
     return this;
   }
@@ -532,6 +1167,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof fallbackImageUrl>
   ): this {
+    this.validate('fallbackImageUrl', options);
     this.modifiers.set('fallbackImageUrl', fallbackImageUrl(...options));
     return this;
   }
@@ -551,6 +1187,7 @@ class ParamBuilder {
    * ```
    */
   public fileName(this: this, ...options: Parameters<typeof fileName>): this {
+    this.validate('fileName', options);
     this.modifiers.set('fileName', fileName(...options));
     return this;
   }
@@ -566,6 +1203,7 @@ class ParamBuilder {
    * ```
    */
   public format(this: this, ...options: Parameters<typeof format>): this {
+    this.validate('format', options);
     this.modifiers.set('format', format(...options));
     return this;
   }
@@ -588,6 +1226,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof formatQuality>
   ): this {
+    this.validate('formatQuality', options);
     this.modifiers.set('formatQuality', formatQuality(...options));
     return this;
   }
@@ -608,6 +1247,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof gifOptions>
   ): this {
+    this.validate('gifOptions', options);
     this.modifiers.set('gifOptions', gifOptions(...options));
     return this;
   }
@@ -629,6 +1269,7 @@ class ParamBuilder {
    * ```
    */
   public gradient(this: this, ...options: Parameters<typeof gradient>): this {
+    this.validate('gradient', options);
     this.modifiers.set('gradient', gradient(...options));
     return this;
   }
@@ -650,6 +1291,7 @@ class ParamBuilder {
    * ```
    */
   public gravity(this: this, ...options: Parameters<typeof gravity>): this {
+    this.validate('gravity', options);
     this.modifiers.set('gravity', gravity(...options));
     return this;
   }
@@ -675,6 +1317,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof jpegOptions>
   ): this {
+    this.validate('jpegOptions', options);
     this.modifiers.set('jpegOptions', jpegOptions(...options));
     return this;
   }
@@ -690,6 +1333,7 @@ class ParamBuilder {
    * ```
    */
   public keepCopyright(this: this): this {
+    this.validate('keepCopyright', []);
     this.modifiers.set('keepCopyright', keepCopyright());
     return this;
   }
@@ -705,6 +1349,7 @@ class ParamBuilder {
    * ```
    */
   public maxBytes(this: this, ...options: Parameters<typeof maxBytes>): this {
+    this.validate('maxBytes', options);
     this.modifiers.set('maxBytes', maxBytes(...options));
     return this;
   }
@@ -720,6 +1365,7 @@ class ParamBuilder {
    * ```
    */
   public minHeight(this: this, ...options: Parameters<typeof minHeight>): this {
+    this.validate('minHeight', options);
     this.modifiers.set('minHeight', minHeight(...options));
     return this;
   }
@@ -735,6 +1381,7 @@ class ParamBuilder {
    * ```
    */
   public minWidth(this: this, ...options: Parameters<typeof minWidth>): this {
+    this.validate('minWidth', options);
     this.modifiers.set('minWidth', minWidth(...options));
     return this;
   }
@@ -755,6 +1402,7 @@ class ParamBuilder {
    * ```
    */
   public pad(this: this, ...options: Parameters<typeof pad>): this {
+    this.validate('pad', options);
     this.modifiers.set('pad', pad(...options));
     return this;
   }
@@ -771,6 +1419,7 @@ class ParamBuilder {
    * ```
    */
   public page(this: this, ...options: Parameters<typeof page>): this {
+    this.validate('page', options);
     this.modifiers.set('page', page(...options));
     return this;
   }
@@ -786,6 +1435,7 @@ class ParamBuilder {
    * ```
    */
   public pixelate(this: this, ...options: Parameters<typeof pixelate>): this {
+    this.validate('pixelate', options);
     this.modifiers.set('pixelate', pixelate(...options));
     return this;
   }
@@ -808,6 +1458,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof pngOptions>
   ): this {
+    this.validate('pngOptions', options);
     this.modifiers.set('pngOptions', pngOptions(...options));
     return this;
   }
@@ -825,6 +1476,7 @@ class ParamBuilder {
    * ```
    */
   public preset(this: this, ...options: Parameters<typeof preset>): this {
+    this.validate('preset', options);
     this.modifiers.set('preset', preset(...options));
     return this;
   }
@@ -840,6 +1492,7 @@ class ParamBuilder {
    * ```
    */
   public raw(this: this, ...options: Parameters<typeof raw>): this {
+    this.validate('raw', options);
     this.modifiers.set('raw', raw(...options));
     return this;
   }
@@ -858,6 +1511,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof resizingAlgorithm>
   ): this {
+    this.validate('resizingAlgorithm', options);
     this.modifiers.set('resizingAlgorithm', resizingAlgorithm(...options));
     return this;
   }
@@ -873,6 +1527,7 @@ class ParamBuilder {
    * ```
    */
   public returnAttachment(this: this): this {
+    this.validate('returnAttachment', []);
     this.modifiers.set('returnAttachment', returnAttachment());
     return this;
   }
@@ -888,6 +1543,7 @@ class ParamBuilder {
    * ```
    */
   public quality(this: this, ...options: Parameters<typeof quality>): this {
+    this.validate('quality', options);
     this.modifiers.set('quality', quality(...options));
     return this;
   }
@@ -907,6 +1563,7 @@ class ParamBuilder {
    * ```
    */
   public resize(this: this, ...options: Parameters<typeof resize>): this {
+    this.validate('resize', options);
     this.modifiers.set('resize', resize(...options));
     return this;
   }
@@ -922,6 +1579,7 @@ class ParamBuilder {
    * ```
    */
   public rotate(this: this, ...options: Parameters<typeof rotate>): this {
+    this.validate('rotate', options);
     this.modifiers.set('rotate', rotate(...options));
     return this;
   }
@@ -940,6 +1598,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof saturation>
   ): this {
+    this.validate('saturation', options);
     this.modifiers.set('saturation', saturation(...options));
     return this;
   }
@@ -955,6 +1614,7 @@ class ParamBuilder {
    * ```
    */
   public sharpen(this: this, ...options: Parameters<typeof sharpen>): this {
+    this.validate('sharpen', options);
     this.modifiers.set('sharpen', sharpen(...options));
     return this;
   }
@@ -973,6 +1633,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof skipProcessing>
   ): this {
+    this.validate('skipProcessing', options);
     this.modifiers.set('skipProcessing', skipProcessing(...options));
     return this;
   }
@@ -988,6 +1649,7 @@ class ParamBuilder {
    * ```
    */
   public stripColorProfile(this: this): this {
+    this.validate('stripColorProfile', []);
     this.modifiers.set('stripColorProfile', stripColorProfile());
     return this;
   }
@@ -1003,6 +1665,7 @@ class ParamBuilder {
    * ```
    */
   public stripMetadata(this: this): this {
+    this.validate('stripMetadata', []);
     this.modifiers.set('stripMetadata', stripMetadata());
     return this;
   }
@@ -1024,6 +1687,7 @@ class ParamBuilder {
    * ```
    */
   public style(this: this, ...options: Parameters<typeof style>): this {
+    this.validate('style', options);
     this.modifiers.set('style', style(...options));
     return this;
   }
@@ -1046,6 +1710,7 @@ class ParamBuilder {
    * ```
    */
   public trim(this: this, ...options: Parameters<typeof trim>): this {
+    this.validate('trim', options);
     this.modifiers.set('trim', trim(...options));
     return this;
   }
@@ -1065,6 +1730,7 @@ class ParamBuilder {
    * ```
    */
   public unsharpen(this: this, ...options: Parameters<typeof unsharpen>): this {
+    this.validate('unsharpen', options);
     this.modifiers.set('unsharpen', unsharpen(...options));
     return this;
   }
@@ -1083,6 +1749,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof videoThumbnailSecond>
   ): this {
+    this.validate('videoThumbnailSecond', options);
     this.modifiers.set(
       'videoThumbnailSecond',
       videoThumbnailSecond(...options),
@@ -1115,6 +1782,7 @@ class ParamBuilder {
    * ```
    */
   public watermark(this: this, ...options: Parameters<typeof watermark>): this {
+    this.validate('watermark', options);
     this.modifiers.set('watermark', watermark(...options));
     return this;
   }
@@ -1133,6 +1801,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof watermarkShadow>
   ): this {
+    this.validate('watermarkShadow', options);
     this.modifiers.set('watermarkShadow', watermarkShadow(...options));
     return this;
   }
@@ -1156,6 +1825,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof watermarkSize>
   ): this {
+    this.validate('watermarkSize', options);
     this.modifiers.set('watermarkSize', watermarkSize(...options));
     return this;
   }
@@ -1174,6 +1844,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof watermarkText>
   ): this {
+    this.validate('watermarkText', options);
     this.modifiers.set('watermarkText', watermarkText(...options));
     return this;
   }
@@ -1192,6 +1863,7 @@ class ParamBuilder {
     this: this,
     ...options: Parameters<typeof watermarkUrl>
   ): this {
+    this.validate('watermarkUrl', options);
     this.modifiers.set('watermarkUrl', watermarkUrl(...options));
     return this;
   }
@@ -1207,6 +1879,7 @@ class ParamBuilder {
    * ```
    */
   public zoom(this: this, ...options: Parameters<typeof zoom>): this {
+    this.validate('zoom', options);
     this.modifiers.set('zoom', zoom(...options));
     return this;
   }
@@ -1215,9 +1888,19 @@ class ParamBuilder {
 /**
  * Creates a new param builder instance
  *
- * @returns  The param builder instance
+ * If a target is specified, only the modifiers supported by the
+ * target are available.
+ *
+ * @param options  (Optional) The options of the param builder
+ * @returns        The param builder instance
  */
-const pb = (): ParamBuilder => new ParamBuilder();
+function pb<T extends ImgproxyTarget>(
+  options: ParamBuilderOptions & { target: T },
+): TargetedParamBuilder<T>;
+function pb(options?: ParamBuilderOptions): ParamBuilder;
+function pb(options?: ParamBuilderOptions): ParamBuilder {
+  return new ParamBuilder(new Map(), options);
+}
 
 export default pb;
-export { ParamBuilder };
+export { ParamBuilder, ParamBuilderOptions };
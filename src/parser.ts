@@ -0,0 +1,263 @@
+import { normalizePathPrefix, safeDecodeURIComponent } from './common.js';
+import { base64urlDecode, utf8decode } from './crypto/codec.js';
+import { ParamBuilder } from './param-builder.js';
+import { OPTION_NAMES, resolveModifier } from './option-names.js';
+import { resolvePlugin } from './plugins.js';
+
+/**
+ * The result of parsing an imgproxy URL
+ */
+type ParsedUrl = {
+  /**
+   * The applied modifiers, keyed by the name of the
+   * param builder method which produces them
+   */
+  modifiers: Map<keyof ParamBuilder, string>;
+
+  /**
+   * The modifiers of each pipeline if the URL contains
+   * chained pipelines, else a single entry
+   */
+  pipelines: Array<Map<keyof ParamBuilder, string>>;
+
+  /**
+   * The base URL of the imgproxy instance, if the URL
+   * contained one
+   */
+  baseUrl?: string;
+
+  /**
+   * The signature segment, if the URL contained one
+   */
+  signature?: string;
+
+  /**
+   * The decoded path to the source image, if the URL
+   * contained one. For encrypted URLs this is the encrypted
+   * path, see `decryptSourceUrl()`.
+   */
+  path?: string;
+
+  /**
+   * Whether the source image path was appended in plain
+   */
+  plain: boolean;
+
+  /**
+   * Whether the source image path was encrypted
+   */
+  encrypted: boolean;
+
+  /**
+   * The extension appended to the source image path, if any
+   */
+  extension?: string;
+};
+
+/**
+ * The options for parsing an imgproxy URL
+ */
+type ParseOptions = {
+  /**
+   * (Optional) The path prefix imgproxy is configured with,
+   * i.e. `IMGPROXY_PATH_PREFIX`
+   */
+  pathPrefix?: string;
+
+  /**
+   * Whether imgproxy only accepts presets, i.e.
+   * `IMGPROXY_ONLY_PRESETS`
+   */
+  onlyPresets?: boolean;
+};
+
+/**
+ * Normalizes the specified processing option segment to
+ * the short option name emitted by the transformers
+ *
+ * @param segment  The processing option segment, e.g. `resize:fit:300`
+ * @returns        The modifier and its normalized param string
+ */
+const parseOption = (
+  segment: string,
+): [keyof ParamBuilder, string] | undefined => {
+  const separatorIdx = segment.indexOf(':');
+  if (separatorIdx < 0) return undefined;
+
+  const name = segment.slice(0, separatorIdx);
+  const modifier = resolveModifier(name);
+  if (modifier)
+    return [
+      modifier,
+      `${OPTION_NAMES[modifier].short}${segment.slice(separatorIdx)}`,
+    ];
+
+  const plugin = resolvePlugin(name);
+  if (!plugin) throw new Error(`Unknown processing option: ${name}`);
+
+  return [
+    plugin.name as keyof ParamBuilder,
+    `${plugin.code}${segment.slice(separatorIdx)}`,
+  ];
+};
+
+/**
+ * Splits the extension off the specified source image path
+ *
+ * @param path       The source image path
+ * @param separator  The separator preceding the extension
+ * @returns          The path and the extension, if any
+ */
+const splitExtension = (
+  path: string,
+  separator: '@' | '.',
+): [string, string | undefined] => {
+  const idx = path.lastIndexOf(separator);
+  const extension = path.slice(idx + 1);
+
+  return idx < 0 || !/^[a-z\d]+$/i.test(extension)
+    ? [path, undefined]
+    : [path.slice(0, idx), extension];
+};
+
+/**
+ * Splits the specified imgproxy URL into the base URL, the
+ * signature segment and the remaining (signed) path.
+ *
+ * If the URL neither starts with a protocol nor with a slash
+ * it is treated as bare modifier string without signature.
+ *
+ * The query string and the fragment are dropped, as imgproxy
+ * ignores them.
+ *
+ * @param url         The imgproxy URL
+ * @param pathPrefix  (Optional) The path prefix preceding the signature
+ * @returns           The URL components
+ */
+const splitUrl = (
+  url: string,
+  pathPrefix?: string,
+): { baseUrl?: string; signature?: string; path: string } => {
+  const target = url.replace(/[?#].*$/s, '');
+  const baseUrl = /^[a-z][a-z\d+.-]*:\/\/[^/]+/i.exec(target)?.[0];
+  const prefix = normalizePathPrefix(pathPrefix);
+
+  let fullPath = baseUrl ? target.slice(baseUrl.length) : target;
+  if (prefix && fullPath.startsWith(`${prefix}/`))
+    fullPath = fullPath.slice(prefix.length);
+
+  if (!fullPath.startsWith('/')) return { baseUrl, path: fullPath };
+
+  const signatureEnd = fullPath.indexOf('/', 1);
+
+  return signatureEnd < 0
+    ? { baseUrl, signature: fullPath.slice(1), path: '' }
+    : {
+        baseUrl,
+        signature: fullPath.slice(1, signatureEnd),
+        path: fullPath.slice(signatureEnd),
+      };
+};
+
+/**
+ * Parses an imgproxy URL into its components.
+ *
+ * Accepts a full URL (`https://imgproxy.test/<signature>/...`), a path
+ * (`/<signature>/...`) or the bare modifier string produced by
+ * `ParamBuilder.build()` without a path.
+ *
+ * @param url      The imgproxy URL
+ * @param options  The parse options
+ * @returns        The parsed URL
+ */
+const parseUrl = (url: string, options?: ParseOptions): ParsedUrl => {
+  const {
+    baseUrl,
+    signature,
+    path: signedPath,
+  } = splitUrl(url, options?.pathPrefix);
+  const segments = signedPath.split('/');
+
+  const pipelines: Array<Map<keyof ParamBuilder, string>> = [new Map()];
+
+  let path: string | undefined = undefined;
+  let plain = false;
+  let encrypted = false;
+  let extension: string | undefined = undefined;
+  let expectPresets = options?.onlyPresets ?? false;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (!segment) continue;
+
+    // If only presets are accepted, the first segment contains
+    // the colon-separated preset names
+    if (expectPresets) {
+      expectPresets = false;
+      pipelines[0].set('preset', `pr:${segment}`);
+      continue;
+    }
+
+    // Chained pipelines are separated by a dash
+    if (segment === '-') {
+      pipelines.push(new Map());
+      continue;
+    }
+
+    // Everything after the plain marker is the source URL
+    if (segment === 'plain') {
+      plain = true;
+      const [source, ext] = splitExtension(
+        segments.slice(i + 1).join('/'),
+        '@',
+      );
+      path = safeDecodeURIComponent(source);
+      extension = ext;
+      break;
+    }
+
+    // The encrypted source URL can't be decrypted without
+    // the key and is returned as is
+    if (segment === 'enc') {
+      encrypted = true;
+      [path, extension] = splitExtension(segments.slice(i + 1).join(''), '.');
+      break;
+    }
+
+    const option = parseOption(segment);
+
+    // The first segment which isn't a processing option marks
+    // the start of the base64url encoded source URL
+    if (!option) {
+      const [source, ext] = splitExtension(segments.slice(i).join(''), '.');
+      path = utf8decode(base64urlDecode(source));
+      extension = ext;
+      break;
+    }
+
+    pipelines[pipelines.length - 1].set(...option);
+  }
+
+  const modifiers: Map<keyof ParamBuilder, string> =
+    pipelines.length > 1
+      ? new Map([
+          [
+            'chain' as keyof ParamBuilder,
+            pipelines.map((p) => Array.from(p.values()).join('/')).join('/-/'),
+          ],
+        ])
+      : pipelines[0];
+
+  return {
+    modifiers,
+    pipelines,
+    baseUrl,
+    signature,
+    path,
+    plain,
+    encrypted,
+    extension,
+  };
+};
+
+export { ParseOptions, ParsedUrl, parseUrl, splitUrl };
@@ -0,0 +1,192 @@
+import { parseOptions, stringifyOptions } from './common.js';
+
+/**
+ * The arguments of each custom modifier, keyed by the name of
+ * its param builder method
+ *
+ * Extend it through declaration merging to add the typed
+ * methods of registered modifiers to the param builder:
+ *
+ * ```typescript
+ * declare module '@bitpatty/imgproxy-url-builder' {
+ *   interface CustomModifiers {
+ *     colorize: [color: string, opacity?: number];
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+interface CustomModifiers {}
+
+/**
+ * The name of a custom modifier
+ */
+type CustomModifierName = Extract<keyof CustomModifiers, string>;
+
+/**
+ * The arguments of the specified custom modifier
+ */
+type PluginOptions<K extends CustomModifierName> = Extract<
+  CustomModifiers[K],
+  unknown[]
+>;
+
+/**
+ * The definition of a custom modifier
+ */
+type ModifierPlugin<K extends CustomModifierName> = {
+  /**
+   * The name of the param builder method
+   */
+  name: K;
+
+  /**
+   * The (short) imgproxy option name, e.g. `col`
+   */
+  code: string;
+
+  /**
+   * (Optional) The full imgproxy option name, e.g. `colorize`.
+   *
+   * Defaults to the code
+   */
+  longName?: string;
+
+  /**
+   * Converts the arguments of the method to the values of the
+   * option, which are encoded and joined with the code
+   */
+  serialize: (
+    ...options: PluginOptions<K>
+  ) => Array<string | number | boolean | undefined>;
+
+  /**
+   * (Optional) Validates the arguments of the method in strict
+   * mode, throwing an error if they are invalid
+   */
+  validate?: (...options: PluginOptions<K>) => void;
+
+  /**
+   * (Optional) Converts the decoded values of the option back to
+   * the arguments of the method, required to serialize the
+   * modifier to JSON, to read it with `get()` or to compare it
+   * with `diff()`
+   */
+  parse?: (values: string[]) => PluginOptions<K>;
+};
+
+/**
+ * The registered custom modifiers by name
+ */
+const PLUGINS = new Map<string, ModifierPlugin<CustomModifierName>>();
+
+/**
+ * The registered custom modifiers by short and long option name
+ */
+const PLUGIN_LOOKUP = new Map<string, ModifierPlugin<CustomModifierName>>();
+
+/**
+ * Called with each registered custom modifier
+ *
+ * @param plugin  The custom modifier
+ */
+type PluginListener = (plugin: ModifierPlugin<CustomModifierName>) => void;
+
+/**
+ * The listeners called with each registered custom modifier
+ */
+const PLUGIN_LISTENERS: PluginListener[] = [];
+
+/**
+ * Calls the specified listener with each registered custom
+ * modifier, including the ones registered later
+ *
+ * @param listener  The listener, which may throw an error to
+ *                  reject the custom modifier
+ */
+const observePlugins = (listener: PluginListener): void => {
+  PLUGIN_LISTENERS.push(listener);
+  PLUGINS.forEach((plugin) => listener(plugin));
+};
+
+/**
+ * Adds the specified custom modifier to the registry
+ *
+ * @param plugin  The custom modifier
+ */
+const addPlugin = <K extends CustomModifierName>(
+  plugin: ModifierPlugin<K>,
+): void => {
+  const entry = plugin as unknown as ModifierPlugin<CustomModifierName>;
+
+  for (const listener of PLUGIN_LISTENERS) listener(entry);
+
+  PLUGINS.set(plugin.name, entry);
+  PLUGIN_LOOKUP.set(plugin.code, entry);
+  if (plugin.longName) PLUGIN_LOOKUP.set(plugin.longName, entry);
+};
+
+/**
+ * Returns the registered custom modifier with the specified name
+ *
+ * @param name  The name of the param builder method
+ * @returns     The custom modifier or undefined if there is none
+ */
+const getPlugin = (
+  name: string,
+): ModifierPlugin<CustomModifierName> | undefined => PLUGINS.get(name);
+
+/**
+ * Resolves the registered custom modifier for the specified
+ * option name
+ *
+ * @param name  The short or long option name
+ * @returns     The custom modifier or undefined if there is none
+ */
+const resolvePlugin = (
+  name: string,
+): ModifierPlugin<CustomModifierName> | undefined => PLUGIN_LOOKUP.get(name);
+
+/**
+ * Stringifies the custom modifier for use within the imgproxy
+ * URL
+ *
+ * @param plugin   The custom modifier
+ * @param options  The arguments of the method
+ * @returns        The stringified modifier
+ */
+const stringifyPlugin = <K extends CustomModifierName>(
+  plugin: ModifierPlugin<K>,
+  options: PluginOptions<K>,
+): string => stringifyOptions(plugin.code, plugin.serialize(...options));
+
+/**
+ * Decodes the stringified custom modifier into the arguments
+ * of its method
+ *
+ * @param plugin  The custom modifier
+ * @param param   The stringified modifier
+ * @returns       The arguments
+ */
+const decodePlugin = <K extends CustomModifierName>(
+  plugin: ModifierPlugin<K>,
+  param: string,
+): PluginOptions<K> => {
+  if (!plugin.parse)
+    throw new Error(`Cannot decode modifier without parser: ${plugin.name}`);
+
+  return plugin.parse(parseOptions(param));
+};
+
+export {
+  CustomModifierName,
+  CustomModifiers,
+  ModifierPlugin,
+  PluginOptions,
+  addPlugin,
+  decodePlugin,
+  getPlugin,
+  observePlugins,
+  resolvePlugin,
+  stringifyPlugin,
+};
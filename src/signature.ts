@@ -0,0 +1,332 @@
+import SignatureStatus from './enums/signature-status.enum.js';
+import { base64urlDecode, hexEncode } from './crypto/codec.js';
+import {
+  constantTimeEqual,
+  describeHexError,
+  generateSignatureBytes,
+} from './common.js';
+import { splitUrl } from './parser.js';
+
+/**
+ * A hex-encoded key/salt pair
+ */
+type SignatureKey = {
+  /**
+   * (Optional) An identifier of the pair, e.g. the rotation date
+   */
+  id?: string;
+
+  /**
+   * The hex-encoded key of the signature
+   */
+  key: string;
+
+  /**
+   * The hex encoded salt of the signature
+   */
+  salt: string;
+};
+
+/**
+ * The signature options
+ */
+type SignatureOptions = Omit<SignatureKey, 'id'> & {
+  /**
+   * The number of bytes to use for the signature before encoding to Base64
+   *
+   * Defaults to 32
+   */
+  size?: number;
+};
+
+/**
+ * A set of key/salt pairs, equivalent to configuring multiple
+ * `IMGPROXY_KEY`/`IMGPROXY_SALT` pairs for key rotation.
+ *
+ * URLs are signed with the active pair and verified against
+ * all pairs of the ring.
+ */
+type KeyRing = {
+  /**
+   * The key/salt pairs
+   */
+  keys: [SignatureKey, ...SignatureKey[]];
+
+  /**
+   * The id of the pair used for signing.
+   *
+   * Defaults to the first pair
+   */
+  active?: string;
+
+  /**
+   * The number of bytes to use for the signature before encoding to Base64
+   *
+   * Defaults to 32
+   */
+  size?: number;
+};
+
+/**
+ * The options for verifying the signature of an imgproxy URL
+ */
+type VerifyOptions = {
+  /**
+   * (Optional) The path prefix imgproxy is configured with,
+   * i.e. `IMGPROXY_PATH_PREFIX`, which is not signed
+   */
+  pathPrefix?: string;
+};
+
+/**
+ * The placeholders imgproxy accepts in place of a signature
+ * if signing is disabled
+ */
+const UNSIGNED_PLACEHOLDERS = ['-', '_'];
+
+/**
+ * The maximum signature size, i.e. the size of the HMAC-SHA256
+ */
+const MAX_SIGNATURE_SIZE = 32;
+
+/**
+ * Generates random bytes
+ *
+ * @param size  The number of bytes
+ * @returns     The random bytes
+ */
+type RandomSource = (size: number) => Uint8Array;
+
+/**
+ * Checks whether the specified number is a valid signature size
+ *
+ * @param size  The signature size
+ * @returns     True if the size is valid
+ */
+const isValidSignatureSize = (size: number): boolean =>
+  Number.isInteger(size) && size >= 1 && size <= MAX_SIGNATURE_SIZE;
+
+/**
+ * Validates the hex-encoded keys and salts and the signature size
+ * of the specified signature options
+ *
+ * @param options  The signature options or key ring
+ */
+const validateSignatureOptions = (
+  options: SignatureOptions | KeyRing,
+): void => {
+  const keys: SignatureKey[] = isKeyRing(options) ? options.keys : [options];
+
+  for (const k of keys) {
+    const suffix = k.id == null ? '' : ` of key "${k.id}"`;
+    const keyError = describeHexError(k.key);
+    const saltError = describeHexError(k.salt);
+
+    if (keyError)
+      throw new Error(`Invalid signature key${suffix}: ${keyError}`);
+    if (saltError)
+      throw new Error(`Invalid signature salt${suffix}: ${saltError}`);
+  }
+
+  if (options.size != null && !isValidSignatureSize(options.size))
+    throw new Error(
+      `Invalid signature size: ${options.size}, expected an integer between 1 and ${MAX_SIGNATURE_SIZE}`,
+    );
+};
+
+/**
+ * Checks whether the specified signature options are a key ring
+ *
+ * @param options  The signature options
+ * @returns        True if the options are a key ring
+ */
+const isKeyRing = (options: SignatureOptions | KeyRing): options is KeyRing =>
+  'keys' in options;
+
+/**
+ * Resolves the key/salt pair which should be used for signing
+ *
+ * @param options  The signature options or key ring
+ * @returns        The signature options of the active pair
+ */
+const resolveSigningKey = (
+  options: SignatureOptions | KeyRing,
+): SignatureOptions => {
+  validateSignatureOptions(options);
+  if (!isKeyRing(options)) return options;
+
+  const active =
+    options.active == null
+      ? options.keys[0]
+      : options.keys.find((k) => k.id === options.active);
+
+  if (!active) throw new Error(`Unknown active key: ${options.active}`);
+  return { key: active.key, salt: active.salt, size: options.size };
+};
+
+/**
+ * Splits the signature off the specified URL and decodes it
+ *
+ * @param url         The imgproxy URL
+ * @param pathPrefix  The path prefix
+ * @returns           The decoded signature and the signed path, or
+ *                    the status if the URL can't be verified
+ */
+const extractSignature = (
+  url: string,
+  pathPrefix?: string,
+): { signature: Uint8Array; path: string } | SignatureStatus => {
+  const { signature, path } = splitUrl(url, pathPrefix);
+  if (!signature || path.length <= 1) return SignatureStatus.MALFORMED;
+  if (UNSIGNED_PLACEHOLDERS.includes(signature))
+    return SignatureStatus.UNSIGNED;
+
+  try {
+    return { signature: base64urlDecode(signature), path };
+  } catch {
+    return SignatureStatus.MALFORMED;
+  }
+};
+
+/**
+ * Finds the first key/salt pair matching the specified signature
+ *
+ * @param signature  The decoded signature
+ * @param path       The signed path
+ * @param keys       The key/salt pairs to check
+ * @param size       The signature size
+ * @returns          The matching pair or undefined if none matches
+ */
+const findMatchingKey = <T extends Omit<SignatureKey, 'id'>>(
+  signature: Uint8Array,
+  path: string,
+  keys: T[],
+  size = 32,
+): T | undefined => {
+  // All keys are checked to not leak the index of the
+  // matching key through the timing
+  return keys.reduce<T | undefined>(
+    (match, k) =>
+      constantTimeEqual(
+        signature,
+        generateSignatureBytes(path, k.key, k.salt, size),
+      ) && !match
+        ? k
+        : match,
+    undefined,
+  );
+};
+
+/**
+ * Verifies the signature of the specified imgproxy URL.
+ *
+ * The URL may either be a full URL or a path starting with the
+ * signature segment. If a key ring is specified, the signature
+ * is valid if it matches any of its pairs.
+ *
+ * See https://github.com/imgproxy/imgproxy/blob/b243a08254b9ca7da2c628429cd870c111ece5c9/docs/signing_the_url.md
+ *
+ * @param url            The imgproxy URL
+ * @param options        The signature options or key ring
+ * @param verifyOptions  (Optional) The verify options
+ * @returns              The verification result
+ */
+const verifySignature = (
+  url: string,
+  options: SignatureOptions | KeyRing,
+  verifyOptions?: VerifyOptions,
+): SignatureStatus => {
+  validateSignatureOptions(options);
+
+  const extracted = extractSignature(url, verifyOptions?.pathPrefix);
+  if (typeof extracted === 'string') return extracted;
+
+  return findMatchingKey(
+    extracted.signature,
+    extracted.path,
+    isKeyRing(options) ? options.keys : [options],
+    options.size,
+  )
+    ? SignatureStatus.VALID
+    : SignatureStatus.INVALID;
+};
+
+/**
+ * Finds the key/salt pair of the key ring the specified URL
+ * was signed with.
+ *
+ * @param url            The imgproxy URL
+ * @param keyRing        The key ring
+ * @param verifyOptions  (Optional) The verify options
+ * @returns              The matching pair or undefined if the URL is
+ *                       not signed with any pair of the ring
+ */
+const findSigningKey = (
+  url: string,
+  keyRing: KeyRing,
+  verifyOptions?: VerifyOptions,
+): SignatureKey | undefined => {
+  validateSignatureOptions(keyRing);
+
+  const extracted = extractSignature(url, verifyOptions?.pathPrefix);
+  if (typeof extracted === 'string') return undefined;
+
+  return findMatchingKey(
+    extracted.signature,
+    extracted.path,
+    keyRing.keys,
+    keyRing.size,
+  );
+};
+
+/**
+ * Generates a random key/salt pair in the hex-encoded format
+ * expected by `IMGPROXY_KEY` and `IMGPROXY_SALT`.
+ *
+ * @example
+ * ```typescript
+ * import { randomBytes } from 'node:crypto';
+ *
+ * const { key, salt } = generateKeyPair(randomBytes);
+ * ```
+ *
+ * @param random  The cryptographically secure random source, defaults
+ *                to `globalThis.crypto.getRandomValues`
+ * @param size    The number of bytes of the key and the salt,
+ *                defaults to 64
+ * @returns       The hex-encoded key/salt pair
+ */
+const generateKeyPair = (
+  random?: RandomSource,
+  size = 64,
+): Omit<SignatureKey, 'id'> => {
+  if (!Number.isInteger(size) || size < 1)
+    throw new Error(`Invalid key size: ${size}`);
+
+  const source: RandomSource =
+    random ??
+    ((n): Uint8Array => {
+      if (!globalThis.crypto?.getRandomValues)
+        throw new Error('No random source is available');
+      return globalThis.crypto.getRandomValues(new Uint8Array(n));
+    });
+
+  const [key, salt] = [source(size), source(size)];
+  if (key.length !== size || salt.length !== size)
+    throw new Error(`The random source must return ${size} bytes`);
+
+  return { key: hexEncode(key), salt: hexEncode(salt) };
+};
+
+export {
+  KeyRing,
+  RandomSource,
+  SignatureKey,
+  SignatureOptions,
+  VerifyOptions,
+  findSigningKey,
+  generateKeyPair,
+  isValidSignatureSize,
+  resolveSigningKey,
+  verifySignature,
+};
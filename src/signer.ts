@@ -0,0 +1,138 @@
+import { wordArrayToByteArray } from './crypto/common.js';
+import hmac from './crypto/hmac.js';
+
+/**
+ * Calculates the HMAC-SHA256 used for signing imgproxy URLs
+ */
+type Signer = {
+  /**
+   * Calculates the HMAC-SHA256 of the specified message
+   *
+   * @param key      The key bytes
+   * @param message  The message bytes
+   * @returns        The 32 byte HMAC
+   */
+  hmacSha256: (key: Uint8Array, message: Uint8Array) => Uint8Array;
+};
+
+/**
+ * Asynchronously calculates the HMAC-SHA256 used for
+ * signing imgproxy URLs
+ */
+type AsyncSigner = {
+  /**
+   * Calculates the HMAC-SHA256 of the specified message
+   *
+   * @param key      The key bytes
+   * @param message  The message bytes
+   * @returns        The 32 byte HMAC
+   */
+  hmacSha256: (key: Uint8Array, message: Uint8Array) => Promise<Uint8Array>;
+};
+
+/**
+ * The subset of the `node:crypto` module used by the signer
+ */
+type NodeCryptoModule = {
+  createHmac: (
+    algorithm: 'sha256',
+    key: Uint8Array,
+  ) => { update: (data: Uint8Array) => { digest: () => Uint8Array } };
+};
+
+/**
+ * The subset of the Web Crypto `SubtleCrypto` interface used
+ * by the signer
+ */
+type SubtleCryptoModule = {
+  importKey: (
+    format: 'raw',
+    keyData: Uint8Array,
+    algorithm: { name: 'HMAC'; hash: 'SHA-256' },
+    extractable: false,
+    keyUsages: ['sign'],
+  ) => Promise<unknown>;
+  sign: (
+    algorithm: 'HMAC',
+    key: never,
+    data: Uint8Array,
+  ) => Promise<ArrayBuffer>;
+};
+
+/**
+ * The signer based on the bundled pure JavaScript SHA256
+ * implementation. Works in every runtime.
+ */
+const pureJsSigner: Signer = {
+  hmacSha256: (key, message) => wordArrayToByteArray(hmac(key, message)),
+};
+
+/**
+ * Creates a synchronous signer backed by `node:crypto`.
+ *
+ * The module is passed in rather than imported to keep the
+ * library free of Node.js specific imports.
+ *
+ * @example
+ * ```typescript
+ * import * as crypto from 'node:crypto';
+ *
+ * const signer = createNodeCryptoSigner(crypto);
+ * ```
+ *
+ * @param crypto  The `node:crypto` module
+ * @returns       The signer
+ */
+const createNodeCryptoSigner = (crypto: NodeCryptoModule): Signer => ({
+  hmacSha256: (key, message) =>
+    crypto.createHmac('sha256', key).update(message).digest(),
+});
+
+/**
+ * Creates an asynchronous signer backed by the Web Crypto API.
+ *
+ * Imported keys are cached per signer instance.
+ *
+ * @param subtle  The `SubtleCrypto` instance, defaults to
+ *                `globalThis.crypto.subtle`
+ * @returns       The signer
+ */
+const createWebCryptoSigner = (
+  subtle: SubtleCryptoModule = globalThis.crypto?.subtle as SubtleCryptoModule,
+): AsyncSigner => {
+  if (!subtle) throw new Error('The Web Crypto API is not available');
+
+  const keys = new Map<string, Promise<unknown>>();
+
+  return {
+    hmacSha256: async (key, message) => {
+      const cacheKey = key.join(',');
+      let cryptoKey = keys.get(cacheKey);
+
+      if (!cryptoKey) {
+        cryptoKey = subtle.importKey(
+          'raw',
+          key,
+          { name: 'HMAC', hash: 'SHA-256' },
+          false,
+          ['sign'],
+        );
+        keys.set(cacheKey, cryptoKey);
+      }
+
+      return new Uint8Array(
+        await subtle.sign('HMAC', (await cryptoKey) as never, message),
+      );
+    },
+  };
+};
+
+export {
+  AsyncSigner,
+  NodeCryptoModule,
+  Signer,
+  SubtleCryptoModule,
+  createNodeCryptoSigner,
+  createWebCryptoSigner,
+  pureJsSigner,
+};
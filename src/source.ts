@@ -0,0 +1,246 @@
+/**
+ * The location of an image in Amazon S3
+ */
+type S3Source = {
+  /**
+   * The name of the bucket
+   */
+  bucket: string;
+
+  /**
+   * The key of the object
+   */
+  key: string;
+
+  /**
+   * (Optional) The version of the object
+   */
+  versionId?: string;
+};
+
+/**
+ * The location of an image in Google Cloud Storage
+ */
+type GcsSource = {
+  /**
+   * The name of the bucket
+   */
+  bucket: string;
+
+  /**
+   * The key of the object
+   */
+  key: string;
+
+  /**
+   * (Optional) The generation of the object
+   */
+  generation?: string;
+};
+
+/**
+ * The location of an image in Azure Blob Storage
+ */
+type AzureSource = {
+  /**
+   * The name of the container
+   */
+  container: string;
+
+  /**
+   * The name of the blob
+   */
+  blob: string;
+};
+
+/**
+ * The location of an image in OpenStack Object Storage (Swift)
+ */
+type SwiftSource = {
+  /**
+   * The name of the container
+   */
+  container: string;
+
+  /**
+   * The name of the object
+   */
+  object: string;
+};
+
+/**
+ * A parsed source URL
+ */
+type SourceLocation =
+  | ({ type: 's3' } & S3Source)
+  | ({ type: 'gcs' } & GcsSource)
+  | ({ type: 'azure' } & AzureSource)
+  | ({ type: 'swift' } & SwiftSource)
+  | { type: 'local'; path: string }
+  | { type: 'http'; url: string };
+
+/**
+ * Escapes each segment of the specified path, preserving
+ * the slashes
+ *
+ * @param path  The path
+ * @returns     The escaped path
+ */
+const escapePath = (path: string): string =>
+  path.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Unescapes each segment of the specified path
+ *
+ * @param path  The escaped path
+ * @returns     The path
+ */
+const unescapePath = (path: string): string =>
+  path.split('/').map(decodeURIComponent).join('/');
+
+/**
+ * Creates the source URL for the specified bucket and object
+ *
+ * @param scheme  The URL scheme
+ * @param bucket  The name of the bucket or container
+ * @param key     The key of the object
+ * @param query   (Optional) The version of the object
+ * @returns       The source URL
+ */
+const objectUrl = (
+  scheme: string,
+  bucket: string,
+  key: string,
+  query?: string,
+): string => {
+  if (!bucket) throw new Error(`Missing bucket for ${scheme}:// source`);
+  if (!key) throw new Error(`Missing key for ${scheme}:// source`);
+
+  const url = `${scheme}://${encodeURIComponent(bucket)}/${escapePath(key)}`;
+
+  return query ? `${url}?${encodeURIComponent(query)}` : url;
+};
+
+/**
+ * The source URL constructors. The results are accepted as
+ * path by `build()`.
+ *
+ * See https://docs.imgproxy.net/image_sources for the imgproxy documentation
+ *
+ * @example
+ * ```typescript
+ * pb().build({
+ *   path: source.s3({ bucket: 'mybucket', key: 'my image.png' }),
+ * });
+ * ```
+ */
+const source = {
+  /**
+   * Creates the source URL of an object in Amazon S3
+   *
+   * @param options  The bucket, key and version
+   * @returns        The source URL, e.g. `s3://bucket/key?version`
+   */
+  s3: (options: S3Source): string =>
+    objectUrl('s3', options.bucket, options.key, options.versionId),
+
+  /**
+   * Creates the source URL of an object in Google Cloud Storage
+   *
+   * @param options  The bucket, key and generation
+   * @returns        The source URL, e.g. `gs://bucket/key?generation`
+   */
+  gcs: (options: GcsSource): string =>
+    objectUrl('gs', options.bucket, options.key, options.generation),
+
+  /**
+   * Creates the source URL of a blob in Azure Blob Storage
+   *
+   * @param options  The container and blob
+   * @returns        The source URL, e.g. `abs://container/blob`
+   */
+  azure: (options: AzureSource): string =>
+    objectUrl('abs', options.container, options.blob),
+
+  /**
+   * Creates the source URL of an object in OpenStack Object Storage
+   *
+   * @param options  The container and object
+   * @returns        The source URL, e.g. `swift://container/object`
+   */
+  swift: (options: SwiftSource): string =>
+    objectUrl('swift', options.container, options.object),
+
+  /**
+   * Creates the source URL of a file on the local file system,
+   * relative to `IMGPROXY_LOCAL_FILESYSTEM_ROOT`
+   *
+   * @param path  The path to the file
+   * @returns     The source URL, e.g. `local:///path/to/file`
+   */
+  local: (path: string): string => {
+    if (!path) throw new Error('Missing path for local:// source');
+    return `local:///${escapePath(path.replace(/^\/+/, ''))}`;
+  },
+
+  /**
+   * Normalizes the specified HTTP(S) URL
+   *
+   * @param url  The URL
+   * @returns    The escaped URL
+   */
+  http: (url: string): string => {
+    try {
+      if (/^https?:\/\//i.test(url)) return new URL(url).href;
+    } catch {
+      // Handled below
+    }
+
+    throw new Error(`Invalid HTTP URL: ${url}`);
+  },
+};
+
+/**
+ * Parses a source URL created by one of the `source` constructors
+ *
+ * @param url  The source URL
+ * @returns    The source location
+ */
+const parseSource = (url: string): SourceLocation => {
+  if (/^https?:\/\//i.test(url)) return { type: 'http', url };
+
+  const match = /^([a-z][a-z\d+.-]*):\/\/([^/?]*)\/?([^?]*)(?:\?(.*))?$/i.exec(
+    url,
+  );
+  if (!match) throw new Error(`Unsupported source: ${url}`);
+
+  const [, scheme, host, rawPath, query] = match;
+  const path = unescapePath(rawPath);
+  const bucket = decodeURIComponent(host);
+  const version = query ? decodeURIComponent(query) : undefined;
+
+  switch (scheme.toLowerCase()) {
+    case 's3':
+      return { type: 's3', bucket, key: path, versionId: version };
+    case 'gs':
+      return { type: 'gcs', bucket, key: path, generation: version };
+    case 'abs':
+      return { type: 'azure', container: bucket, blob: path };
+    case 'swift':
+      return { type: 'swift', container: bucket, object: path };
+    case 'local':
+      return { type: 'local', path: `/${path}` };
+  }
+
+  throw new Error(`Unsupported source: ${url}`);
+};
+
+export {
+  AzureSource,
+  GcsSource,
+  S3Source,
+  SourceLocation,
+  SwiftSource,
+  parseSource,
+  source,
+};
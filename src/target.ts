@@ -0,0 +1,173 @@
+import { ModifierName } from './option-names.js';
+import { ParamBuilder } from './param-builder.js';
+
+/**
+ * The major versions of imgproxy
+ */
+type ImgproxyVersion = 2 | 3;
+
+/**
+ * The editions of imgproxy
+ */
+type ImgproxyEdition = 'oss' | 'pro';
+
+/**
+ * The imgproxy version and edition the URLs are built for
+ */
+type ImgproxyTarget = {
+  /**
+   * The major version of imgproxy
+   */
+  version: ImgproxyVersion;
+
+  /**
+   * The edition of imgproxy, i.e. `oss` for the open source
+   * edition or `pro` for imgproxy Pro
+   */
+  edition: ImgproxyEdition;
+};
+
+/**
+ * The versions and editions supporting a modifier
+ */
+type ModifierSupport = {
+  /**
+   * The major versions supporting the modifier
+   */
+  versions: readonly ImgproxyVersion[];
+
+  /**
+   * The editions supporting the modifier
+   */
+  editions: readonly ImgproxyEdition[];
+};
+
+const ALL_VERSIONS = [2, 3] as const;
+const ALL_EDITIONS = ['oss', 'pro'] as const;
+const PRO = { versions: ALL_VERSIONS, editions: ['pro'] } as const;
+const V3 = { versions: [3], editions: ALL_EDITIONS } as const;
+const PRO_V3 = { versions: [3], editions: ['pro'] } as const;
+
+/**
+ * The modifiers which are not supported by every version and
+ * edition of imgproxy
+ *
+ * See https://github.com/imgproxy/imgproxy/blob/6f292443eafb2e39f9252175b61faa6b38105a7c/CHANGELOG.md for the imgproxy changelog
+ */
+const MODIFIER_SUPPORT = {
+  adjust: PRO,
+  backgroundAlpha: PRO,
+  blurDetections: PRO_V3,
+  brightness: PRO,
+  contrast: PRO,
+  disableAnimation: PRO_V3,
+  drawDetections: PRO_V3,
+  enforceThumbnail: V3,
+  extendAspectRatio: V3,
+  fallbackImageUrl: PRO_V3,
+  formatQuality: V3,
+  gifOptions: { versions: [2], editions: ['pro'] },
+  gradient: PRO,
+  jpegOptions: PRO,
+  keepCopyright: V3,
+  page: PRO,
+  pngOptions: PRO,
+  raw: V3,
+  resizingAlgorithm: PRO,
+  returnAttachment: V3,
+  saturation: PRO,
+  style: PRO,
+  unsharpen: PRO,
+  videoThumbnailSecond: PRO,
+  watermarkShadow: PRO_V3,
+  watermarkSize: PRO,
+  watermarkText: PRO,
+  watermarkUrl: PRO,
+} as const satisfies { [K in ModifierName]?: ModifierSupport };
+
+/**
+ * The modifiers which are not supported by the target
+ */
+type UnsupportedModifier<T extends ImgproxyTarget> = {
+  [K in keyof typeof MODIFIER_SUPPORT]: T['version'] extends (typeof MODIFIER_SUPPORT)[K]['versions'][number]
+    ? T['edition'] extends (typeof MODIFIER_SUPPORT)[K]['editions'][number]
+      ? never
+      : K
+    : K;
+}[keyof typeof MODIFIER_SUPPORT];
+
+/**
+ * A param builder which only exposes the modifiers supported
+ * by the target
+ */
+type TargetedParamBuilder<T extends ImgproxyTarget> = {
+  [K in keyof ParamBuilder as K extends UnsupportedModifier<T>
+    ? never
+    : K]: ParamBuilder[K] extends (...args: infer A) => ParamBuilder
+    ? (...args: A) => TargetedParamBuilder<T>
+    : ParamBuilder[K];
+};
+
+/**
+ * Formats the target for messages, e.g. `imgproxy 3 (OSS)`
+ *
+ * @param target  The target
+ * @returns       The formatted target
+ */
+const formatTarget = (target: ImgproxyTarget): string =>
+  `imgproxy ${target.version} (${target.edition === 'pro' ? 'Pro' : 'OSS'})`;
+
+/**
+ * Checks whether the target supports the specified modifier
+ *
+ * @param modifier  The modifier
+ * @param target    The target
+ * @returns         True if the modifier is supported
+ */
+const isSupported = (
+  modifier: keyof ParamBuilder,
+  target: ImgproxyTarget,
+): boolean => {
+  const support: ModifierSupport | undefined =
+    MODIFIER_SUPPORT[modifier as keyof typeof MODIFIER_SUPPORT];
+
+  return (
+    support == null ||
+    (support.versions.includes(target.version) &&
+      support.editions.includes(target.edition))
+  );
+};
+
+/**
+ * Describes how the specified modifier can be supported,
+ * e.g. `Use imgproxy 3` or `Use imgproxy Pro`
+ *
+ * @param modifier  The unsupported modifier
+ * @param target    The target
+ * @returns         The suggestion
+ */
+const describeSupport = (
+  modifier: keyof ParamBuilder,
+  target: ImgproxyTarget,
+): string => {
+  const support: ModifierSupport =
+    MODIFIER_SUPPORT[modifier as keyof typeof MODIFIER_SUPPORT];
+  const requirements = [];
+
+  if (!support.versions.includes(target.version))
+    requirements.push(`imgproxy ${support.versions.join(' or ')}`);
+  if (!support.editions.includes(target.edition))
+    requirements.push('imgproxy Pro');
+
+  return `Remove ${modifier} or target ${requirements.join(' and ')}`;
+};
+
+export {
+  ImgproxyEdition,
+  ImgproxyTarget,
+  ImgproxyVersion,
+  TargetedParamBuilder,
+  describeSupport,
+  formatTarget,
+  isSupported,
+};
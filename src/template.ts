@@ -0,0 +1,298 @@
+import { ModifierName } from './option-names.js';
+import { BuildOptions, ParamBuilder } from './param-builder.js';
+import { CustomModifierName } from './plugins.js';
+
+/**
+ * A param builder whose modifiers depend on params, defined by
+ * `defineTemplate()`
+ */
+type BuilderTemplate<P extends object> = {
+  /**
+   * The modifiers which depend on the params, undefined if the
+   * factory rejected the placeholders
+   */
+  parameterised: Array<ModifierName | CustomModifierName> | undefined;
+
+  /**
+   * Whether the static modifiers are compiled. If false, the
+   * factory is called on each render.
+   */
+  compiled: boolean;
+
+  /**
+   * Creates a param builder with the modifiers for the
+   * specified params
+   *
+   * @param params  The params
+   * @returns       The param builder
+   */
+  builder: (params: P) => ParamBuilder;
+
+  /**
+   * Builds the imgproxy URL for the specified params
+   *
+   * @param params   The params
+   * @param options  The build options
+   * @returns        The imgproxy URL
+   */
+  render: (params: P, options?: BuildOptions) => string;
+};
+
+/**
+ * The result of calling the factory of a template with
+ * placeholders for the params
+ */
+type CompiledTemplate = {
+  /**
+   * The param builder with the placeholders
+   */
+  base: ParamBuilder;
+
+  /**
+   * The modifiers containing placeholders
+   */
+  parameterised: Map<keyof ParamBuilder, string>;
+
+  /**
+   * The names of the read params
+   */
+  keys: string[];
+
+  /**
+   * Whether each read param is used as is by the modifiers, such
+   * that its value can be substituted for the placeholder
+   */
+  substitutable: boolean;
+};
+
+/**
+ * The values of the params the factory is called with to verify
+ * the substitution, e.g. to detect params which are trimmed,
+ * replaced by a default if falsy or added to
+ */
+const PROBES: Array<(key: string) => string | number> = [
+  (key) => ` Probe:${key}/ `,
+  () => '',
+  () => 7919,
+];
+
+/**
+ * Matches the placeholders as they're stringified by the
+ * transformers
+ */
+const PLACEHOLDER = /%00(.*?)%00/g;
+
+/**
+ * Creates the placeholder of the specified param
+ *
+ * @param key  The name of the param
+ * @returns    The placeholder
+ */
+const placeholder = (key: string): string => `\u0000${key}\u0000`;
+
+/**
+ * Stringifies the param value like the transformers
+ *
+ * @param value  The param value
+ * @returns      The stringified value
+ */
+const stringifyValue = (value: unknown): string =>
+  encodeURIComponent(String(value));
+
+/**
+ * Substitutes the values of the params for the placeholders of
+ * the parameterised modifiers
+ *
+ * @param base           The param builder with the placeholders
+ * @param parameterised  The modifiers containing placeholders
+ * @param params         The params
+ * @returns              A param builder with the values
+ */
+const substitute = (
+  base: ParamBuilder,
+  parameterised: Map<keyof ParamBuilder, string>,
+  params: Record<string, unknown>,
+): ParamBuilder => {
+  const res = base.clone();
+  for (const [modifier, param] of parameterised)
+    res.modifiers.set(
+      modifier,
+      param
+        .replace(PLACEHOLDER, (_, key: string) =>
+          stringifyValue(params[decodeURIComponent(key)]),
+        )
+        .replace(/:+$/, ''),
+    );
+
+  return res;
+};
+
+/**
+ * Checks whether both maps contain the same modifiers in the
+ * same order
+ *
+ * @param a  The first modifiers
+ * @param b  The second modifiers
+ * @returns  True if the modifiers are equal
+ */
+const isEqualModifiers = (
+  a: Map<keyof ParamBuilder, string>,
+  b: Map<keyof ParamBuilder, string>,
+): boolean => {
+  const entries = Array.from(b);
+
+  return (
+    a.size === b.size &&
+    Array.from(a).every(
+      ([modifier, param], idx) =>
+        entries[idx][0] === modifier && entries[idx][1] === param,
+    )
+  );
+};
+
+/**
+ * Calls the factory with placeholders for the params
+ *
+ * @param factory  The factory of the param builder
+ * @returns        The compiled template, undefined if the
+ *                 factory rejected the placeholders
+ */
+const compileTemplate = <P extends object>(
+  factory: (params: P) => ParamBuilder,
+): CompiledTemplate | undefined => {
+  const reads = new Map<string, number>();
+  let enumerated = false;
+
+  const params = new Proxy(
+    {},
+    {
+      get: (_, key) => {
+        if (typeof key === 'symbol') return undefined;
+
+        reads.set(key, (reads.get(key) ?? 0) + 1);
+        return placeholder(key);
+      },
+      has: () => {
+        enumerated = true;
+        return true;
+      },
+      ownKeys: () => {
+        enumerated = true;
+        return [];
+      },
+    },
+  ) as P;
+
+  let base: ParamBuilder;
+  try {
+    base = factory(params);
+  } catch {
+    // e.g. the options of a strict builder are validated
+    return undefined;
+  }
+
+  const uses = new Map<string, number>();
+  const parameterised = new Map<keyof ParamBuilder, string>();
+
+  for (const [modifier, param] of base.modifiers) {
+    const matches = Array.from(param.matchAll(PLACEHOLDER));
+    if (!matches.length) continue;
+
+    parameterised.set(modifier, param);
+    for (const [, key] of matches) {
+      const name = decodeURIComponent(key);
+      uses.set(name, (uses.get(name) ?? 0) + 1);
+    }
+  }
+
+  // Params which are read more often than they are used were
+  // used to compute other values, e.g. in a condition
+  const keys = Array.from(reads.keys());
+  const substitutable =
+    !enumerated &&
+    keys.every((key) => reads.get(key) === uses.get(key)) &&
+    PROBES.every((probe) => {
+      const values = Object.fromEntries(keys.map((key) => [key, probe(key)]));
+
+      try {
+        return isEqualModifiers(
+          substitute(base, parameterised, values).modifiers,
+          factory(values as P).modifiers,
+        );
+      } catch {
+        return false;
+      }
+    });
+
+  return { base, parameterised, keys, substitutable };
+};
+
+/**
+ * Checks whether the specified param value can be substituted
+ * for its placeholder, i.e. whether it's stringified as is
+ *
+ * Missing values can't be substituted, as the transformers
+ * might apply defaults.
+ *
+ * @param value  The param value
+ * @returns      True if the value can be substituted
+ */
+const isSubstitutable = (value: unknown): boolean =>
+  ['string', 'number', 'boolean'].includes(typeof value);
+
+/**
+ * Defines a param builder template, whose modifiers depend on
+ * the specified params
+ *
+ * The factory is called once with placeholders for the params,
+ * compiling the static modifiers. On render, the values of the
+ * params are substituted into the parameterised modifiers.
+ *
+ * If a param is used to compute another value, e.g. in a
+ * condition or as a string with a default, the factory is
+ * called on each render instead. It is also called if the value
+ * of a param is missing or an object, and for strict builders,
+ * such that the values are validated.
+ *
+ * @param factory  The factory of the param builder
+ * @returns        The template
+ */
+const defineTemplate = <P extends object>(
+  factory: (params: P) => ParamBuilder,
+): BuilderTemplate<P> => {
+  const template = compileTemplate(factory);
+  const compiled = !!template?.substitutable && !template.base.strict;
+
+  // If the params can't be substituted, any modifier might
+  // depend on them
+  const parameterised = template?.substitutable
+    ? template.parameterised
+    : template?.base.modifiers;
+
+  const builder = (params: P): ParamBuilder => {
+    if (
+      !compiled ||
+      !template.keys.every((key) => isSubstitutable(params[key as keyof P]))
+    )
+      return factory(params);
+
+    return substitute(
+      template.base,
+      template.parameterised,
+      params as Record<string, unknown>,
+    );
+  };
+
+  return {
+    parameterised:
+      parameterised &&
+      (Array.from(parameterised.keys()) as Array<
+        ModifierName | CustomModifierName
+      >),
+    compiled,
+    builder,
+    render: (params, options) => builder(params).build(options),
+  };
+};
+
+export { BuilderTemplate, defineTemplate };
@@ -1,4 +1,9 @@
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseNumber,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The adjust options
@@ -35,5 +40,23 @@ const adjust = (options: AdjustOptions): string =>
     options.saturation,
   ]);
 
+/**
+ * Decodes the adjust param string
+ *
+ * @param param  The adjust param string, e.g. `a:100:0.8:0.9`
+ * @returns      The adjust options
+ */
+const decode = (param: string): Parameters<typeof adjust> => {
+  const [brightness, contrast, saturation] = parseOptions(param);
+
+  return [
+    compactOptions({
+      brightness: parseNumber(brightness),
+      contrast: parseNumber(contrast),
+      saturation: parseNumber(saturation),
+    }),
+  ];
+};
+
 export default adjust;
-export { AdjustOptions };
+export { AdjustOptions, decode };
@@ -9,4 +9,12 @@ import { stringifyOptions } from '../common.js';
  */
 const autoRotate = (): string => stringifyOptions('ar', [true]);
 
+/**
+ * Decodes the auto rotate param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof autoRotate> => [];
+
 export default autoRotate;
+export { decode };
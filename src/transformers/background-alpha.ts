@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The background alpha, a positive floating point number ranging from 0 to 1
@@ -16,5 +16,15 @@ type BackgroundAlphaOptions = number;
 const backgroundAlpha = (percentage: BackgroundAlphaOptions): string =>
   stringifyOptions('bga', [percentage]);
 
+/**
+ * Decodes the background alpha param string
+ *
+ * @param param  The background alpha param string, e.g. `bga:0.5`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof backgroundAlpha> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default backgroundAlpha;
-export { BackgroundAlphaOptions };
+export { BackgroundAlphaOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The background color
@@ -37,5 +37,19 @@ const background = (options: BackgroundOptions): string =>
       : [options.r, options.g, options.b]),
   ]);
 
+/**
+ * Decodes the background param string
+ *
+ * @param param  The background param string, e.g. `bg:255:0:0`
+ * @returns      The background options
+ */
+const decode = (param: string): Parameters<typeof background> => {
+  const values = parseOptions(param);
+  if (values.length < 3) return [values[0]];
+
+  const [r, g, b] = values.map(Number);
+  return [{ r, g, b }];
+};
+
 export default background;
-export { BackgroundOptions };
+export { BackgroundOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The blur detection options
@@ -26,5 +26,21 @@ type BlurDetectionOptions = {
 const blurDetections = (options: BlurDetectionOptions): string =>
   stringifyOptions('bd', [options.sigma, ...(options.classNames ?? [])]);
 
+/**
+ * Decodes the blur detections param string
+ *
+ * @param param  The blur detections param string, e.g. `bd:2:face`
+ * @returns      The blur detection options
+ */
+const decode = (param: string): Parameters<typeof blurDetections> => {
+  const [sigma, ...classNames] = parseOptions(param);
+
+  return [
+    classNames.length
+      ? { sigma: Number(sigma), classNames }
+      : { sigma: Number(sigma) },
+  ];
+};
+
 export default blurDetections;
-export { BlurDetectionOptions };
+export { BlurDetectionOptions, decode };
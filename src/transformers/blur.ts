@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The blur radius
@@ -15,5 +15,15 @@ type BlurOptions = number;
  */
 const blur = (sigma: BlurOptions): string => stringifyOptions('bl', [sigma]);
 
+/**
+ * Decodes the blur param string
+ *
+ * @param param  The blur param string, e.g. `bl:10`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof blur> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default blur;
-export { BlurOptions };
+export { BlurOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The brightness, an integer ranging from -255 to 255.
@@ -16,5 +16,15 @@ type BrightnessOptions = number;
 const brightness = (value: BrightnessOptions): string =>
   stringifyOptions('br', [value]);
 
+/**
+ * Decodes the brightness param string
+ *
+ * @param param  The brightness param string, e.g. `br:100`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof brightness> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default brightness;
-export { BrightnessOptions };
+export { BrightnessOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The cache buster
@@ -16,5 +16,15 @@ type CacheBusterOptions = string;
 const cacheBuster = (buster: CacheBusterOptions): string =>
   stringifyOptions('cb', [buster]);
 
+/**
+ * Decodes the cache buster param string
+ *
+ * @param param  The cache buster param string, e.g. `cb:abc`
+ * @returns      The cache buster
+ */
+const decode = (param: string): Parameters<typeof cacheBuster> => [
+  parseOptions(param)[0],
+];
+
 export default cacheBuster;
-export { CacheBusterOptions };
+export { CacheBusterOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The percentage (positive floating number from 0-1)
@@ -17,5 +17,15 @@ type ContrastOptions = number;
 const contrast = (percentage: ContrastOptions): string =>
   stringifyOptions('co', [percentage]);
 
+/**
+ * Decodes the contrast param string
+ *
+ * @param param  The contrast param string, e.g. `co:0.3`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof contrast> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default contrast;
-export { ContrastOptions };
+export { ContrastOptions, decode };
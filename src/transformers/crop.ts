@@ -1,5 +1,11 @@
 import GravityType from '../enums/gravity-type.enum.js';
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseNumber,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
+import { decodeGravity } from './gravity.js';
 
 /**
  * The available options for the crop operation
@@ -63,5 +69,23 @@ const crop = (options?: CropOptions): string =>
     options?.gravity?.offset?.y,
   ]);
 
+/**
+ * Decodes the crop param string
+ *
+ * @param param  The crop param string, e.g. `c:100:50:no`
+ * @returns      The crop options
+ */
+const decode = (param: string): Parameters<typeof crop> => {
+  const [width, height, type, x, y] = parseOptions(param);
+
+  return [
+    compactOptions({
+      width: parseNumber(width),
+      height: parseNumber(height),
+      gravity: type ? decodeGravity(type, x, y) : undefined,
+    }),
+  ];
+};
+
 export default crop;
-export { CropOptions };
+export { CropOptions, decode };
@@ -9,4 +9,12 @@ import { stringifyOptions } from '../common.js';
  */
 const disableAnimation = (): string => stringifyOptions('da', [true]);
 
+/**
+ * Decodes the disable animation param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof disableAnimation> => [];
+
 export default disableAnimation;
+export { decode };
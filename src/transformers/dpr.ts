@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The DPR factor (must be greater than 0)
@@ -15,5 +15,15 @@ type DprOptions = number;
  */
 const dpr = (value: DprOptions): string => stringifyOptions('dpr', [value]);
 
+/**
+ * Decodes the dpr param string
+ *
+ * @param param  The dpr param string, e.g. `dpr:2`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof dpr> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default dpr;
-export { DprOptions };
+export { DprOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The draw detection options
@@ -23,5 +23,16 @@ type DrawDetectionOptions = {
 const drawDetections = (options: DrawDetectionOptions): string =>
   stringifyOptions('dd', [true, ...(options.classNames ?? [])]);
 
+/**
+ * Decodes the draw detections param string
+ *
+ * @param param  The draw detections param string, e.g. `dd:true:face`
+ * @returns      The draw detection options
+ */
+const decode = (param: string): Parameters<typeof drawDetections> => {
+  const [, ...classNames] = parseOptions(param);
+  return [classNames.length ? { classNames } : {}];
+};
+
 export default drawDetections;
-export { DrawDetectionOptions };
+export { DrawDetectionOptions, decode };
@@ -10,4 +10,12 @@ import { stringifyOptions } from '../common.js';
  */
 const enforceThumbnail = (): string => stringifyOptions('eth', [true]);
 
+/**
+ * Decodes the enforce thumbnail param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof enforceThumbnail> => [];
+
 export default enforceThumbnail;
+export { decode };
@@ -9,4 +9,12 @@ import { stringifyOptions } from '../common.js';
  */
 const enlarge = (): string => stringifyOptions('el', [true]);
 
+/**
+ * Decodes the enlarge param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof enlarge> => [];
+
 export default enlarge;
+export { decode };
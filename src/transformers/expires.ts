@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The expiration date / unix timestamp
@@ -20,5 +20,15 @@ const expires = (options: ExpiresOptions): string =>
       : Math.floor(options.getTime() / 1000),
   ]);
 
+/**
+ * Decodes the expires param string
+ *
+ * @param param  The expires param string, e.g. `exp:1661431326`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof expires> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default expires;
-export { ExpiresOptions };
+export { ExpiresOptions, decode };
@@ -1,4 +1,5 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
+import { decodeGravity } from './gravity.js';
 
 import { GravityType } from '../index.js';
 
@@ -46,5 +47,24 @@ const extendAspectRatio = (options?: ExtendAspectRatioOptions): string =>
     options?.gravity?.offset?.y,
   ]);
 
+/**
+ * Decodes the extend aspect ratio param string
+ *
+ * @param param  The extend aspect ratio param string, e.g. `exar:true:no`
+ * @returns      The extend aspect ratio options
+ */
+const decode = (param: string): Parameters<typeof extendAspectRatio> => {
+  const [, type, x, y] = parseOptions(param);
+  if (!type) return [];
+
+  return [
+    {
+      gravity: decodeGravity(type, x, y) as NonNullable<
+        ExtendAspectRatioOptions['gravity']
+      >,
+    },
+  ];
+};
+
 export default extendAspectRatio;
-export { ExtendAspectRatioOptions };
+export { ExtendAspectRatioOptions, decode };
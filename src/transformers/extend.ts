@@ -1,5 +1,6 @@
 import GravityType from '../enums/gravity-type.enum.js';
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
+import { decodeGravity } from './gravity.js';
 
 /**
  * The extend options
@@ -44,5 +45,24 @@ const extend = (options?: ExtendOptions): string =>
     options?.gravity.offset?.y,
   ]);
 
+/**
+ * Decodes the extend param string
+ *
+ * @param param  The extend param string, e.g. `ex:true:no`
+ * @returns      The extend options
+ */
+const decode = (param: string): Parameters<typeof extend> => {
+  const [, type, x, y] = parseOptions(param);
+  if (!type) return [];
+
+  return [
+    {
+      gravity: decodeGravity(type, x, y) as NonNullable<
+        ExtendOptions['gravity']
+      >,
+    },
+  ];
+};
+
 export default extend;
-export { ExtendOptions };
+export { ExtendOptions, decode };
@@ -1,5 +1,10 @@
-import { base64urlEncode, utf8encode } from '../crypto/codec.js';
-import { stringifyOptions } from '../common.js';
+import {
+  base64urlDecode,
+  base64urlEncode,
+  utf8decode,
+  utf8encode,
+} from '../crypto/codec.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The fallback image URL
@@ -17,5 +22,15 @@ type FallbackImageUrlOptions = string;
 const fallbackImageUrl = (url: FallbackImageUrlOptions): string =>
   stringifyOptions('fiu', [base64urlEncode(utf8encode(url))]);
 
+/**
+ * Decodes the fallback image URL param string
+ *
+ * @param param  The fallback image URL param string, e.g. `fiu:aHR0cHM6Ly9leGFtcGxlLmNvbQ`
+ * @returns      The fallback image URL
+ */
+const decode = (param: string): Parameters<typeof fallbackImageUrl> => [
+  utf8decode(base64urlDecode(parseOptions(param)[0])),
+];
+
 export default fallbackImageUrl;
-export { FallbackImageUrlOptions };
+export { FallbackImageUrlOptions, decode };
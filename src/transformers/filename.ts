@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseBoolean, parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The file name
@@ -17,5 +17,16 @@ type FileNameOptions = string;
 const fileName = (name: FileNameOptions, base64Encoded = false): string =>
   stringifyOptions('fn', [name, base64Encoded ? true : undefined]);
 
+/**
+ * Decodes the file name param string
+ *
+ * @param param  The file name param string, e.g. `fn:image.png`
+ * @returns      The file name and whether it is base64 encoded
+ */
+const decode = (param: string): Parameters<typeof fileName> => {
+  const [name, base64Encoded] = parseOptions(param);
+  return parseBoolean(base64Encoded) ? [name, true] : [name];
+};
+
 export default fileName;
-export { FileNameOptions };
+export { FileNameOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * A record consisting of a mapping from extension/format to the quality factor
@@ -19,5 +19,21 @@ const formatQuality = (options: FormatQualityOptions): string =>
     Object.entries(options).flatMap((e) => e),
   );
 
+/**
+ * Decodes the format quality param string
+ *
+ * @param param  The format quality param string, e.g. `fq:jpg:80:webp:70`
+ * @returns      The quality per format
+ */
+const decode = (param: string): Parameters<typeof formatQuality> => {
+  const values = parseOptions(param);
+  const options: FormatQualityOptions = {};
+
+  for (let i = 0; i + 1 < values.length; i += 2)
+    options[values[i]] = Number(values[i + 1]);
+
+  return [options];
+};
+
 export default formatQuality;
-export { FormatQualityOptions };
+export { FormatQualityOptions, decode };
@@ -1,18 +1,24 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
+
+/**
+ * The supported file formats
+ */
+const FORMATS = [
+  'png',
+  'jpg',
+  'webp',
+  'avif',
+  'gif',
+  'ico',
+  'heic',
+  'bmp',
+  'tiff',
+] as const;
 
 /**
  * The file format
  */
-type FormatOptions =
-  | 'png'
-  | 'jpg'
-  | 'webp'
-  | 'avif'
-  | 'gif'
-  | 'ico'
-  | 'heic'
-  | 'bmp'
-  | 'tiff';
+type FormatOptions = (typeof FORMATS)[number];
 
 /**
  * Specifies the resulting image format.
@@ -25,5 +31,15 @@ type FormatOptions =
 const format = (imageFormat: FormatOptions): string =>
   stringifyOptions('f', [imageFormat]);
 
+/**
+ * Decodes the format param string
+ *
+ * @param param  The format param string, e.g. `f:png`
+ * @returns      The format
+ */
+const decode = (param: string): Parameters<typeof format> => [
+  parseOptions(param)[0] as FormatOptions,
+];
+
 export default format;
-export { FormatOptions };
+export { FORMATS, FormatOptions, decode };
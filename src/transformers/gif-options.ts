@@ -1,7 +1,12 @@
 // Removed in version 3.0.0
 // See: https://github.com/imgproxy/imgproxy/blob/6f292443eafb2e39f9252175b61faa6b38105a7c/CHANGELOG.md#removed
 
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseBoolean,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The GIF options
@@ -31,5 +36,22 @@ const gifOptions = (options: GifOptions): string =>
     options.optimizeTransparency,
   ]);
 
+/**
+ * Decodes the gif options param string
+ *
+ * @param param  The gif options param string, e.g. `gifo:true:false`
+ * @returns      The gif options
+ */
+const decode = (param: string): Parameters<typeof gifOptions> => {
+  const [optimizeFrames, optimizeTransparency] = parseOptions(param);
+
+  return [
+    compactOptions({
+      optimizeFrames: parseBoolean(optimizeFrames),
+      optimizeTransparency: parseBoolean(optimizeTransparency),
+    }),
+  ];
+};
+
 export default gifOptions;
-export { GifOptions };
+export { GifOptions, decode };
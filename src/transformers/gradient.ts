@@ -1,5 +1,5 @@
 import GradientDirection from '../enums/gradient-direction.enum.js';
-import { stringifyOptions } from '../common.js';
+import { compactOptions, parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The gradient options
@@ -48,5 +48,35 @@ const gradient = (options: GradientOptions): string =>
     options.stop ?? '1.0',
   ]);
 
+/**
+ * Parses the specified gradient value as number if it is
+ * emitted as such, keeping values like `0.0` as they are
+ *
+ * @param value  The value
+ * @returns      The number or the value
+ */
+const parseNumeric = (value?: string): number | string | undefined =>
+  value ? (String(Number(value)) === value ? Number(value) : value) : undefined;
+
+/**
+ * Decodes the gradient param string
+ *
+ * @param param  The gradient param string, e.g. `gr:0.5:000:down:0.0:1.0`
+ * @returns      The gradient options
+ */
+const decode = (param: string): Parameters<typeof gradient> => {
+  const [opacity, color, direction, start, stop] = parseOptions(param);
+
+  return [
+    compactOptions({
+      opacity: parseNumeric(opacity) ?? 0,
+      color: color || undefined,
+      direction: (direction || undefined) as GradientDirection | undefined,
+      start: parseNumeric(start),
+      stop: parseNumeric(stop),
+    }),
+  ];
+};
+
 export default gradient;
-export { GradientOptions };
+export { GradientOptions, decode };
@@ -1,5 +1,5 @@
 import GravityType from '../enums/gravity-type.enum.js';
-import { stringifyOptions } from '../common.js';
+import { parseNumber, parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The gravity options
@@ -37,5 +37,41 @@ type GravityOptions = {
 const gravity = (options: GravityOptions): string =>
   stringifyOptions('g', [options.type, options.offset?.x, options.offset?.y]);
 
+/**
+ * Decodes the gravity values shared by the modifiers accepting
+ * a gravity
+ *
+ * @param type  The gravity type
+ * @param x     (Optional) The offset on the X axis
+ * @param y     (Optional) The offset on the Y axis
+ * @returns     The gravity options
+ */
+const decodeGravity = (
+  type: string,
+  x?: string,
+  y?: string,
+): GravityOptions => {
+  const offsetX = parseNumber(x);
+  const offsetY = parseNumber(y);
+
+  return offsetX != null || offsetY != null
+    ? {
+        type: type as GravityType,
+        offset: { x: offsetX ?? 0, y: offsetY ?? 0 },
+      }
+    : { type: type as GravityType };
+};
+
+/**
+ * Decodes the gravity param string
+ *
+ * @param param  The gravity param string, e.g. `g:fp:0.5:0.5`
+ * @returns      The gravity options
+ */
+const decode = (param: string): Parameters<typeof gravity> => {
+  const [type, x, y] = parseOptions(param);
+  return [decodeGravity(type, x, y)];
+};
+
 export default gravity;
-export { GravityOptions };
+export { GravityOptions, decode, decodeGravity };
@@ -1,4 +1,10 @@
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseBoolean,
+  parseNumber,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The JPEG options
@@ -66,5 +72,35 @@ const jpegOptions = (options: JpegOptions): string =>
     options.quantizationTable,
   ]);
 
+/**
+ * Decodes the jpeg options param string
+ *
+ * @param param  The jpeg options param string, e.g. `jpgo:true:false:true:false:true:3`
+ * @returns      The jpeg options
+ */
+const decode = (param: string): Parameters<typeof jpegOptions> => {
+  const [
+    progressive,
+    noSubsample,
+    trellisQuant,
+    overshootDeringing,
+    optimizeScans,
+    quantizationTable,
+  ] = parseOptions(param);
+
+  return [
+    compactOptions({
+      progressive: parseBoolean(progressive),
+      noSubsample: parseBoolean(noSubsample),
+      trellisQuant: parseBoolean(trellisQuant),
+      overshootDeringing: parseBoolean(overshootDeringing),
+      optimizeScans: parseBoolean(optimizeScans),
+      quantizationTable: parseNumber(
+        quantizationTable,
+      ) as JpegOptions['quantizationTable'],
+    }),
+  ];
+};
+
 export default jpegOptions;
-export { JpegOptions };
+export { JpegOptions, decode };
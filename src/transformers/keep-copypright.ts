@@ -9,4 +9,12 @@ import { stringifyOptions } from '../common.js';
  */
 const keepCopyright = (): string => stringifyOptions('kcr', [true]);
 
+/**
+ * Decodes the keep copyright param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof keepCopyright> => [];
+
 export default keepCopyright;
+export { decode };
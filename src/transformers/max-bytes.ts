@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The number of bytes
@@ -18,5 +18,15 @@ type MaxBytesOptions = number;
 const maxBytes = (bytes: MaxBytesOptions): string =>
   stringifyOptions('mb', [bytes]);
 
+/**
+ * Decodes the max bytes param string
+ *
+ * @param param  The max bytes param string, e.g. `mb:1024`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof maxBytes> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default maxBytes;
-export { MaxBytesOptions };
+export { MaxBytesOptions, decode };
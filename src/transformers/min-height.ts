@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The min height of the resulting image
@@ -16,5 +16,15 @@ type MinHeightOptions = number;
 const minHeight = (height: MinHeightOptions): string =>
   stringifyOptions('mh', [height]);
 
+/**
+ * Decodes the min height param string
+ *
+ * @param param  The min height param string, e.g. `mh:100`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof minHeight> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default minHeight;
-export { MinHeightOptions };
+export { MinHeightOptions, decode };
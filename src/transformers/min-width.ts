@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The min width of the resulting image
@@ -16,5 +16,15 @@ type MinWidthOptions = number;
 const minWidth = (width: MinWidthOptions): string =>
   stringifyOptions('mw', [width]);
 
+/**
+ * Decodes the min width param string
+ *
+ * @param param  The min width param string, e.g. `mw:100`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof minWidth> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default minWidth;
-export { MinWidthOptions };
+export { MinWidthOptions, decode };
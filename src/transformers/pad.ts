@@ -1,4 +1,9 @@
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseNumber,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The available options for the crop operation
@@ -41,5 +46,24 @@ const pad = (options: PaddingOptions): string =>
     options.left,
   ]);
 
+/**
+ * Decodes the padding param string
+ *
+ * @param param  The padding param string, e.g. `pd:10:20:10:20`
+ * @returns      The padding options
+ */
+const decode = (param: string): Parameters<typeof pad> => {
+  const [top, right, bottom, left] = parseOptions(param);
+
+  return [
+    compactOptions({
+      top: parseNumber(top),
+      right: parseNumber(right),
+      bottom: parseNumber(bottom),
+      left: parseNumber(left),
+    }),
+  ];
+};
+
 export default pad;
-export { PaddingOptions };
+export { PaddingOptions, decode };
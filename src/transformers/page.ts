@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The page number (starting from 0)
@@ -18,5 +18,15 @@ type PageOptions = number;
  */
 const page = (pg: PageOptions): string => stringifyOptions('pg', [pg]);
 
+/**
+ * Decodes the page param string
+ *
+ * @param param  The page param string, e.g. `pg:2`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof page> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default page;
-export { PageOptions };
+export { PageOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The size of a pixel
@@ -16,5 +16,15 @@ type PixelateOptions = number;
 const pixelate = (pixelSize: PixelateOptions): string =>
   stringifyOptions('pix', [pixelSize]);
 
+/**
+ * Decodes the pixelate param string
+ *
+ * @param param  The pixelate param string, e.g. `pix:5`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof pixelate> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default pixelate;
-export { PixelateOptions };
+export { PixelateOptions, decode };
@@ -1,4 +1,10 @@
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseBoolean,
+  parseNumber,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The PNG options
@@ -37,5 +43,23 @@ const pngOptions = (options: PngOptions): string =>
     options.quantization_colors,
   ]);
 
+/**
+ * Decodes the png options param string
+ *
+ * @param param  The png options param string, e.g. `pngo:true:true:128`
+ * @returns      The png options
+ */
+const decode = (param: string): Parameters<typeof pngOptions> => {
+  const [interlaced, quantize, colors] = parseOptions(param);
+
+  return [
+    compactOptions({
+      interlaced: parseBoolean(interlaced),
+      quantize: parseBoolean(quantize),
+      quantization_colors: parseNumber(colors),
+    }),
+  ];
+};
+
 export default pngOptions;
-export { PngOptions };
+export { PngOptions, decode };
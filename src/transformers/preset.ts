@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * A preset or a list of presets
@@ -16,5 +16,16 @@ type PresetOptions = string | string[];
 const preset = (presets: PresetOptions): string =>
   stringifyOptions('pr', Array.isArray(presets) ? presets : [presets]);
 
+/**
+ * Decodes the preset param string
+ *
+ * @param param  The preset param string, e.g. `pr:thumbnail:blurry`
+ * @returns      The preset names
+ */
+const decode = (param: string): Parameters<typeof preset> => {
+  const presets = parseOptions(param);
+  return [presets.length === 1 ? presets[0] : presets];
+};
+
 export default preset;
-export { PresetOptions };
+export { PresetOptions, decode };
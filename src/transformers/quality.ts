@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The quality in percentage (floating point number from 0.0 to 1.0)
@@ -16,5 +16,15 @@ type QualityOptions = number;
 const quality = (percentage: QualityOptions): string =>
   stringifyOptions('q', [percentage]);
 
+/**
+ * Decodes the quality param string
+ *
+ * @param param  The quality param string, e.g. `q:80`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof quality> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default quality;
-export { QualityOptions };
+export { QualityOptions, decode };
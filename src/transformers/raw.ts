@@ -9,4 +9,12 @@ import { stringifyOptions } from '../common.js';
  */
 const raw = (): string => stringifyOptions('raw', [true]);
 
+/**
+ * Decodes the raw param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof raw> => [];
+
 export default raw;
+export { decode };
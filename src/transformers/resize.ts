@@ -1,5 +1,10 @@
 import ResizeType from '../enums/resize-type.enum.js';
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseNumber,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The resize options
@@ -32,5 +37,23 @@ type ResizeOptions = {
 const resize = (options: ResizeOptions): string =>
   stringifyOptions('rs', [options.type, options.width, options.height]);
 
+/**
+ * Decodes the resize param string
+ *
+ * @param param  The resize param string, e.g. `rs:fit:300:200`
+ * @returns      The resize options
+ */
+const decode = (param: string): Parameters<typeof resize> => {
+  const [type, width, height] = parseOptions(param);
+
+  return [
+    compactOptions({
+      type: (type || undefined) as ResizeType | undefined,
+      width: parseNumber(width),
+      height: parseNumber(height),
+    }),
+  ];
+};
+
 export default resize;
-export { ResizeOptions };
+export { ResizeOptions, decode };
@@ -1,5 +1,5 @@
 import ResizingAlgorithm from '../enums/resizing-algorithm.enum.js';
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The resizing algorithm
@@ -17,5 +17,15 @@ type ResizingAlgorithmOptions = ResizingAlgorithm;
 const resizingAlgorithm = (algorithm: ResizingAlgorithmOptions): string =>
   stringifyOptions('ra', [algorithm]);
 
+/**
+ * Decodes the resizing algorithm param string
+ *
+ * @param param  The resizing algorithm param string, e.g. `ra:lanczos3`
+ * @returns      The resizing algorithm
+ */
+const decode = (param: string): Parameters<typeof resizingAlgorithm> => [
+  parseOptions(param)[0] as ResizingAlgorithm,
+];
+
 export default resizingAlgorithm;
-export { ResizingAlgorithmOptions };
+export { ResizingAlgorithmOptions, decode };
@@ -9,4 +9,12 @@ import { stringifyOptions } from '../common.js';
  */
 const returnAttachment = (): string => stringifyOptions('att', [true]);
 
+/**
+ * Decodes the return attachment param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof returnAttachment> => [];
+
 export default returnAttachment;
+export { decode };
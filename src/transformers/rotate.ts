@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The rotation angle
@@ -16,5 +16,15 @@ type RotationOptions = 0 | 90 | 180 | 270;
 const rotate = (angle: RotationOptions): string =>
   stringifyOptions('rot', [angle]);
 
+/**
+ * Decodes the rotate param string
+ *
+ * @param param  The rotate param string, e.g. `rot:90`
+ * @returns      The rotation angle
+ */
+const decode = (param: string): Parameters<typeof rotate> => [
+  Number(parseOptions(param)[0]) as RotationOptions,
+];
+
 export default rotate;
-export { RotationOptions };
+export { RotationOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The saturation (positive floating point number from 0 to 1).
@@ -17,5 +17,15 @@ type SaturationOptions = number;
 const saturation = (percentage: SaturationOptions): string =>
   stringifyOptions('sa', [percentage]);
 
+/**
+ * Decodes the saturation param string
+ *
+ * @param param  The saturation param string, e.g. `sa:0.3`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof saturation> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default saturation;
-export { SaturationOptions };
+export { SaturationOptions, decode };
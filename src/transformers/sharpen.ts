@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The size of the sharpen mask (floating point number)
@@ -16,5 +16,15 @@ type SharpenOptions = number;
 const sharpen = (sigma: SharpenOptions): string =>
   stringifyOptions('sh', [sigma]);
 
+/**
+ * Decodes the sharpen param string
+ *
+ * @param param  The sharpen param string, e.g. `sh:3`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof sharpen> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default sharpen;
-export { SharpenOptions };
+export { SharpenOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The list of formats which should not be processed
@@ -21,5 +21,15 @@ type SkipProcessingOptions = string[];
 const skipProcessing = (extensions: SkipProcessingOptions): string =>
   stringifyOptions('skp', extensions);
 
+/**
+ * Decodes the skip processing param string
+ *
+ * @param param  The skip processing param string, e.g. `skp:svg:gif`
+ * @returns      The extensions
+ */
+const decode = (param: string): Parameters<typeof skipProcessing> => [
+  parseOptions(param),
+];
+
 export default skipProcessing;
-export { SkipProcessingOptions };
+export { SkipProcessingOptions, decode };
@@ -9,4 +9,12 @@ import { stringifyOptions } from '../common.js';
  */
 const stripColorProfile = (): string => stringifyOptions('scp', [true]);
 
+/**
+ * Decodes the strip color profile param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof stripColorProfile> => [];
+
 export default stripColorProfile;
+export { decode };
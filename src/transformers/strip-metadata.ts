@@ -9,4 +9,12 @@ import { stringifyOptions } from '../common.js';
  */
 const stripMetadata = (): string => stringifyOptions('sm', [true]);
 
+/**
+ * Decodes the strip metadata param string
+ *
+ * @returns  No options
+ */
+const decode = (): Parameters<typeof stripMetadata> => [];
+
 export default stripMetadata;
+export { decode };
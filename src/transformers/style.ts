@@ -1,5 +1,10 @@
-import { base64urlEncode, utf8encode } from '../crypto/codec.js';
-import { stringifyOptions } from '../common.js';
+import {
+  base64urlDecode,
+  base64urlEncode,
+  utf8decode,
+  utf8encode,
+} from '../crypto/codec.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The CSS styles to apply to the source SVG image
@@ -26,5 +31,15 @@ const style = (styles: StyleOptions): string => {
   return stringifyOptions('st', [base64urlEncode(utf8encode(styleString))]);
 };
 
+/**
+ * Decodes the style param string
+ *
+ * @param param  The style param string, e.g. `st:Y29sb3I6cmVk`
+ * @returns      The style string
+ */
+const decode = (param: string): Parameters<typeof style> => [
+  utf8decode(base64urlDecode(parseOptions(param)[0])),
+];
+
 export default style;
-export { StyleOptions };
+export { StyleOptions, decode };
@@ -1,4 +1,9 @@
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseBoolean,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The trim options
@@ -49,5 +54,27 @@ const trim = (options: TrimOptions): string =>
     options.equal?.vertical,
   ]);
 
+/**
+ * Decodes the trim param string
+ *
+ * @param param  The trim param string, e.g. `t:10:ff0000:true:false`
+ * @returns      The trim options
+ */
+const decode = (param: string): Parameters<typeof trim> => {
+  const [threshold, color, horizontal, vertical] = parseOptions(param);
+  const equal = compactOptions({
+    horizontal: parseBoolean(horizontal),
+    vertical: parseBoolean(vertical),
+  });
+
+  return [
+    compactOptions({
+      threshold: Number(threshold),
+      color: color || undefined,
+      equal: Object.keys(equal).length ? equal : undefined,
+    }),
+  ];
+};
+
 export default trim;
-export { TrimOptions };
+export { TrimOptions, decode };
@@ -1,5 +1,10 @@
 import UnsharpeningMode from '../enums/unsharpening-mode.enum.js';
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseNumber,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The unsharpening options
@@ -43,5 +48,23 @@ type UnsharpeningOptions = {
 const unsharpen = (options: UnsharpeningOptions): string =>
   stringifyOptions('ush', [options.mode, options.weight, options.dividor]);
 
+/**
+ * Decodes the unsharpening param string
+ *
+ * @param param  The unsharpening param string, e.g. `ush:auto:2:24`
+ * @returns      The unsharpening options
+ */
+const decode = (param: string): Parameters<typeof unsharpen> => {
+  const [mode, weight, dividor] = parseOptions(param);
+
+  return [
+    compactOptions({
+      mode: (mode || undefined) as UnsharpeningMode | undefined,
+      weight: parseNumber(weight),
+      dividor: parseNumber(dividor),
+    }),
+  ];
+};
+
 export default unsharpen;
-export { UnsharpeningOptions };
+export { UnsharpeningOptions, decode };
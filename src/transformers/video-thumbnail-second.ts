@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The timestamp of the frame in seconds
@@ -17,5 +17,15 @@ type VideoThumbnailSecondOptions = number;
 const videoThumbnailSecond = (second: VideoThumbnailSecondOptions): string =>
   stringifyOptions('vts', [second]);
 
+/**
+ * Decodes the video thumbnail second param string
+ *
+ * @param param  The video thumbnail second param string, e.g. `vts:3`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof videoThumbnailSecond> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default videoThumbnailSecond;
-export { VideoThumbnailSecondOptions };
+export { VideoThumbnailSecondOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The watermark shadow mask size
@@ -16,5 +16,15 @@ type WatermarkShadowOptions = number;
 const watermarkShadow = (sigma: WatermarkShadowOptions): string =>
   stringifyOptions('wmsh', [sigma]);
 
+/**
+ * Decodes the watermark shadow param string
+ *
+ * @param param  The watermark shadow param string, e.g. `wmsh:3`
+ * @returns      The value
+ */
+const decode = (param: string): Parameters<typeof watermarkShadow> => [
+  Number(parseOptions(param)[0]),
+];
+
 export default watermarkShadow;
-export { WatermarkShadowOptions };
+export { WatermarkShadowOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The watermark size
@@ -43,5 +43,16 @@ type WatermarkSizeOptions =
 const watermarkSize = (options: WatermarkSizeOptions): string =>
   stringifyOptions('wms', [options.width ?? 0, options.height ?? 0]);
 
+/**
+ * Decodes the watermark size param string
+ *
+ * @param param  The watermark size param string, e.g. `wms:100:0`
+ * @returns      The watermark size options
+ */
+const decode = (param: string): Parameters<typeof watermarkSize> => {
+  const [width, height] = parseOptions(param).map(Number);
+  return [{ width, height }];
+};
+
 export default watermarkSize;
-export { WatermarkSizeOptions };
+export { WatermarkSizeOptions, decode };
@@ -1,5 +1,10 @@
-import { base64urlEncode, utf8encode } from '../crypto/codec.js';
-import { stringifyOptions } from '../common.js';
+import {
+  base64urlDecode,
+  base64urlEncode,
+  utf8decode,
+  utf8encode,
+} from '../crypto/codec.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The watermark text
@@ -17,5 +22,15 @@ type WatermarkTextOptions = string;
 const watermarkText = (text: WatermarkTextOptions): string =>
   stringifyOptions('wmt', [base64urlEncode(utf8encode(text))]);
 
+/**
+ * Decodes the watermark text param string
+ *
+ * @param param  The watermark text param string, e.g. `wmt:aGVsbG8`
+ * @returns      The watermark text
+ */
+const decode = (param: string): Parameters<typeof watermarkText> => [
+  utf8decode(base64urlDecode(parseOptions(param)[0])),
+];
+
 export default watermarkText;
-export { WatermarkTextOptions };
+export { WatermarkTextOptions, decode };
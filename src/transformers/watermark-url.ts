@@ -1,5 +1,10 @@
-import { base64urlEncode, utf8encode } from '../crypto/codec.js';
-import { stringifyOptions } from '../common.js';
+import {
+  base64urlDecode,
+  base64urlEncode,
+  utf8decode,
+  utf8encode,
+} from '../crypto/codec.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The watermark URL
@@ -17,5 +22,15 @@ type WatermarkUrlOptions = string;
 const watermarkUrl = (url: WatermarkUrlOptions): string =>
   stringifyOptions('wmu', [base64urlEncode(utf8encode(url))]);
 
+/**
+ * Decodes the watermark URL param string
+ *
+ * @param param  The watermark URL param string, e.g. `wmu:aHR0cHM6Ly9leGFtcGxlLmNvbQ`
+ * @returns      The watermark URL
+ */
+const decode = (param: string): Parameters<typeof watermarkUrl> => [
+  utf8decode(base64urlDecode(parseOptions(param)[0])),
+];
+
 export default watermarkUrl;
-export { WatermarkUrlOptions };
+export { WatermarkUrlOptions, decode };
@@ -1,5 +1,10 @@
 import WatermarkPosition from '../enums/watermark-position.enum.js';
-import { stringifyOptions } from '../common.js';
+import {
+  compactOptions,
+  parseNumber,
+  parseOptions,
+  stringifyOptions,
+} from '../common.js';
 
 /**
  * The watermark options
@@ -62,5 +67,29 @@ const watermark = (options: WatermarkOptions): string =>
     options.scale,
   ]);
 
+/**
+ * Decodes the watermark param string
+ *
+ * @param param  The watermark param string, e.g. `wm:0.5:soea:10:10:0.2`
+ * @returns      The watermark options
+ */
+const decode = (param: string): Parameters<typeof watermark> => {
+  const [opacity, position, x, y, scale] = parseOptions(param);
+  const offsetX = parseNumber(x);
+  const offsetY = parseNumber(y);
+
+  return [
+    compactOptions({
+      opacity: Number(opacity),
+      position: (position || undefined) as WatermarkPosition | undefined,
+      offset:
+        offsetX != null || offsetY != null
+          ? { x: offsetX ?? 0, y: offsetY ?? 0 }
+          : undefined,
+      scale: parseNumber(scale),
+    }) as WatermarkOptions,
+  ];
+};
+
 export default watermark;
-export { WatermarkOptions };
+export { WatermarkOptions, decode };
@@ -1,4 +1,4 @@
-import { stringifyOptions } from '../common.js';
+import { parseOptions, stringifyOptions } from '../common.js';
 
 /**
  * The zoom level. Can either be specified for both X/Y or
@@ -21,5 +21,16 @@ const zoom = (options: ZoomOptions): string =>
     typeof options === 'number' ? options : options.join(' '),
   ]);
 
+/**
+ * Decodes the zoom param string
+ *
+ * @param param  The zoom param string, e.g. `z:1.5:2`
+ * @returns      The zoom factor
+ */
+const decode = (param: string): Parameters<typeof zoom> => {
+  const factors = parseOptions(param).join(' ').split(' ').map(Number);
+  return [factors.length === 2 ? [factors[0], factors[1]] : factors[0]];
+};
+
 export default zoom;
-export { ZoomOptions };
+export { ZoomOptions, decode };
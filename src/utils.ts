@@ -1,4 +1,20 @@
 import { ParamBuilder } from './param-builder.js';
+import { ParseOptions, ParsedUrl, parseUrl } from './parser.js';
+
+/**
+ * The result of parsing an imgproxy URL
+ */
+type ParseResult = Omit<ParsedUrl, 'modifiers' | 'pipelines'> & {
+  /**
+   * A param builder with the modifiers of the URL
+   */
+  builder: ParamBuilder;
+
+  /**
+   * A param builder for each chained pipeline
+   */
+  pipelines: ParamBuilder[];
+};
 
 /**
  * Chains the specified param builders
@@ -28,4 +44,24 @@ const chain = (
   );
 };
 
-export { chain };
+/**
+ * Parses an existing imgproxy URL
+ *
+ * Accepts a full URL, a path or the bare modifier string
+ * produced by `ParamBuilder.build()`.
+ *
+ * @param url      The imgproxy URL
+ * @param options  The parse options
+ * @returns        The parse result
+ */
+const parse = (url: string, options?: ParseOptions): ParseResult => {
+  const { modifiers, pipelines, ...rest } = parseUrl(url, options);
+
+  return {
+    ...rest,
+    builder: new ParamBuilder(modifiers),
+    pipelines: pipelines.map((p) => new ParamBuilder(p)),
+  };
+};
+
+export { chain, parse, ParseResult };
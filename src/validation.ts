@@ -0,0 +1,376 @@
+import GradientDirection from './enums/gradient-direction.enum.js';
+import GravityType from './enums/gravity-type.enum.js';
+import ResizeType from './enums/resize-type.enum.js';
+import ResizingAlgorithm from './enums/resizing-algorithm.enum.js';
+import UnsharpeningMode from './enums/unsharpening-mode.enum.js';
+import WatermarkPosition from './enums/watermark-position.enum.js';
+import { ImgproxyOptionError } from './option-error.js';
+import { ModifierName } from './option-names.js';
+import { ParamBuilder } from './param-builder.js';
+import { FORMATS } from './transformers/format.js';
+
+/**
+ * A constraint on the value of an option
+ */
+type Rule = {
+  /**
+   * The description of the allowed values
+   */
+  allowed: string;
+
+  /**
+   * Checks whether the specified value is allowed
+   */
+  test: (value: unknown) => boolean;
+};
+
+/**
+ * Checks the value of a single argument of a modifier
+ *
+ * @param argument  The name of the argument
+ * @param value     The value
+ * @param rule      The rule the value must satisfy
+ * @param optional  Whether undefined values are allowed
+ */
+type Check = (
+  argument: string,
+  value: unknown,
+  rule: Rule,
+  optional?: boolean,
+) => void;
+
+/**
+ * Checks whether the value is a finite number
+ *
+ * @param value  The value
+ * @returns      True if the value is a finite number
+ */
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Allows numbers within the specified range
+ *
+ * @param min      The minimum (inclusive)
+ * @param max      The maximum (inclusive)
+ * @param integer  Whether only integers are allowed
+ * @returns        The rule
+ */
+const range = (min: number, max = Infinity, integer = false): Rule => ({
+  allowed: `${integer ? 'an integer' : 'a number'} ${
+    max === Infinity ? `>= ${min}` : `between ${min} and ${max}`
+  }`,
+  test: (v) =>
+    isNumber(v) && v >= min && v <= max && (!integer || Number.isInteger(v)),
+});
+
+/**
+ * Allows numbers greater than zero
+ */
+const POSITIVE: Rule = {
+  allowed: 'a number > 0',
+  test: (v) => isNumber(v) && v > 0,
+};
+
+/**
+ * Allows any finite number
+ */
+const FINITE: Rule = { allowed: 'a finite number', test: isNumber };
+
+/**
+ * Allows booleans
+ */
+const BOOLEAN: Rule = {
+  allowed: 'a boolean',
+  test: (v) => typeof v === 'boolean',
+};
+
+/**
+ * Allows non-empty strings
+ */
+const NON_EMPTY: Rule = {
+  allowed: 'a non-empty string',
+  test: (v) => typeof v === 'string' && v.length > 0,
+};
+
+/**
+ * Allows hex-encoded colors
+ */
+const HEX_COLOR: Rule = {
+  allowed: 'a hex color, e.g. ff0000',
+  test: (v) => typeof v === 'string' && /^([\da-f]{3}){1,2}$/i.test(v),
+};
+
+/**
+ * Allows the specified values
+ *
+ * @param values  The allowed values
+ * @returns       The rule
+ */
+const oneOf = (values: readonly unknown[]): Rule => ({
+  allowed: `one of ${values.join(', ')}`,
+  test: (v) => values.includes(v),
+});
+
+/**
+ * Creates the check for the arguments of the specified modifier
+ *
+ * @param modifier  The modifier
+ * @returns         The check
+ */
+const checker =
+  (modifier: ModifierName): Check =>
+  (argument, value, rule, optional = false) => {
+    if (optional && value == null) return;
+    if (!rule.test(value))
+      throw new ImgproxyOptionError(modifier, argument, rule.allowed, value);
+  };
+
+/**
+ * Checks the gravity and its offsets
+ *
+ * @param check    The check of the modifier
+ * @param gravity  The gravity
+ * @param types    The allowed gravity types
+ */
+const checkGravity = (
+  check: Check,
+  gravity: { type: GravityType; offset?: { x: number; y: number } },
+  types: GravityType[] = Object.values(GravityType),
+): void => {
+  check('gravity.type', gravity.type, oneOf(types));
+
+  if (gravity.offset == null) return;
+
+  const offsetRule =
+    gravity.type === GravityType.FOCUS_POINT ? range(0, 1) : FINITE;
+  check('gravity.offset.x', gravity.offset.x, offsetRule);
+  check('gravity.offset.y', gravity.offset.y, offsetRule);
+};
+
+/**
+ * Parses numeric strings, such that they are validated like
+ * numbers
+ *
+ * @param value  The number or numeric string
+ * @returns      The number
+ */
+const toNumber = (value: unknown): unknown =>
+  typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+/**
+ * The validators of the modifiers, checking the options against
+ * the ranges documented by imgproxy.
+ *
+ * See https://github.com/imgproxy/imgproxy/blob/6f292443eafb2e39f9252175b61faa6b38105a7c/docs/generating_the_url.md#processing-options for the imgproxy documentation
+ */
+const VALIDATORS: {
+  [K in ModifierName]?: (...options: Parameters<ParamBuilder[K]>) => void;
+} = {
+  adjust: (options) => {
+    const check = checker('adjust');
+    check('brightness', options.brightness, range(-255, 255, true), true);
+    check('contrast', options.contrast, range(0), true);
+    check('saturation', options.saturation, range(0), true);
+  },
+  background: (options) => {
+    const check = checker('background');
+    if (typeof options === 'string') return check('color', options, HEX_COLOR);
+
+    check('r', options.r, range(0, 255, true));
+    check('g', options.g, range(0, 255, true));
+    check('b', options.b, range(0, 255, true));
+  },
+  backgroundAlpha: (percentage) =>
+    checker('backgroundAlpha')('percentage', percentage, range(0, 1)),
+  blur: (sigma) => checker('blur')('sigma', sigma, range(0)),
+  blurDetections: (options) =>
+    checker('blurDetections')('sigma', options.sigma, range(0)),
+  brightness: (value) =>
+    checker('brightness')('value', value, range(-255, 255, true)),
+  contrast: (percentage) =>
+    checker('contrast')('percentage', percentage, range(0)),
+  crop: (options) => {
+    const check = checker('crop');
+    check('width', options?.width, range(0), true);
+    check('height', options?.height, range(0), true);
+    if (options?.gravity) checkGravity(check, options.gravity);
+  },
+  dpr: (value) => checker('dpr')('value', value, POSITIVE),
+  expires: (options) =>
+    checker('expires')(
+      'timestamp',
+      typeof options === 'number' ? options : options.getTime() / 1000,
+      range(0),
+    ),
+  extend: (options) => {
+    if (options?.gravity)
+      checkGravity(
+        checker('extend'),
+        options.gravity,
+        Object.values(GravityType).filter((t) => t !== GravityType.SMART),
+      );
+  },
+  extendAspectRatio: (options) => {
+    if (options?.gravity)
+      checkGravity(
+        checker('extendAspectRatio'),
+        options.gravity,
+        Object.values(GravityType).filter((t) => t !== GravityType.CENTER),
+      );
+  },
+  fileName: (name) => checker('fileName')('name', name, NON_EMPTY),
+  format: (imageFormat) =>
+    checker('format')('imageFormat', imageFormat, oneOf(FORMATS)),
+  formatQuality: (options) => {
+    const check = checker('formatQuality');
+
+    for (const [f, q] of Object.entries(options)) {
+      check('format', f, oneOf(FORMATS));
+      check(f, q, range(0, 100, true));
+    }
+  },
+  gifOptions: (options) => {
+    const check = checker('gifOptions');
+    check('optimizeFrames', options.optimizeFrames, BOOLEAN, true);
+    check('optimizeTransparency', options.optimizeTransparency, BOOLEAN, true);
+  },
+  gradient: (options) => {
+    const check = checker('gradient');
+    check('opacity', toNumber(options.opacity), range(0, 1));
+    check('color', options.color, HEX_COLOR, true);
+    check(
+      'direction',
+      options.direction,
+      oneOf(Object.values(GradientDirection)),
+      true,
+    );
+    check('start', toNumber(options.start), range(0, 1), true);
+    check('stop', toNumber(options.stop), range(0, 1), true);
+  },
+  gravity: (options) => checkGravity(checker('gravity'), options),
+  jpegOptions: (options) =>
+    checker('jpegOptions')(
+      'quantizationTable',
+      options.quantizationTable,
+      range(0, 8, true),
+      true,
+    ),
+  maxBytes: (bytes) =>
+    checker('maxBytes')('bytes', bytes, range(0, Infinity, true)),
+  minHeight: (height) =>
+    checker('minHeight')('height', height, range(0, Infinity, true)),
+  minWidth: (width) =>
+    checker('minWidth')('width', width, range(0, Infinity, true)),
+  pad: (options) => {
+    const check = checker('pad');
+
+    for (const side of ['top', 'right', 'bottom', 'left'] as const)
+      check(side, options[side], range(0, Infinity, true), true);
+  },
+  page: (pg) => checker('page')('page', pg, range(0, Infinity, true)),
+  pixelate: (pixelSize) =>
+    checker('pixelate')('pixelSize', pixelSize, range(0, Infinity, true)),
+  pngOptions: (options) => {
+    const check = checker('pngOptions');
+    check('interlaced', options.interlaced, BOOLEAN, true);
+    check('quantize', options.quantize, BOOLEAN, true);
+    check(
+      'quantization_colors',
+      options.quantization_colors,
+      range(2, 256, true),
+      true,
+    );
+  },
+  preset: (presets) => {
+    const check = checker('preset');
+    for (const p of Array.isArray(presets) ? presets : [presets])
+      check('presets', p, NON_EMPTY);
+  },
+  quality: (percentage) =>
+    checker('quality')('percentage', percentage, range(0, 100, true)),
+  resize: (options) => {
+    const check = checker('resize');
+    check('type', options.type, oneOf(Object.values(ResizeType)), true);
+    check('width', options.width, range(0, Infinity, true), true);
+    check('height', options.height, range(0, Infinity, true), true);
+  },
+  resizingAlgorithm: (algorithm) =>
+    checker('resizingAlgorithm')(
+      'algorithm',
+      algorithm,
+      oneOf(Object.values(ResizingAlgorithm)),
+    ),
+  rotate: (angle) =>
+    checker('rotate')('angle', angle, oneOf([0, 90, 180, 270])),
+  saturation: (percentage) =>
+    checker('saturation')('percentage', percentage, range(0)),
+  sharpen: (sigma) => checker('sharpen')('sigma', sigma, range(0)),
+  skipProcessing: (extensions) => {
+    const check = checker('skipProcessing');
+    for (const e of extensions) check('extensions', e, NON_EMPTY);
+  },
+  trim: (options) => {
+    const check = checker('trim');
+    check('threshold', options.threshold, range(0));
+    check('color', options.color, HEX_COLOR, true);
+    check('equal.horizontal', options.equal?.horizontal, BOOLEAN, true);
+    check('equal.vertical', options.equal?.vertical, BOOLEAN, true);
+  },
+  unsharpen: (options) => {
+    const check = checker('unsharpen');
+    check('mode', options.mode, oneOf(Object.values(UnsharpeningMode)), true);
+    check('weight', options.weight, POSITIVE, true);
+    check('dividor', options.dividor, POSITIVE, true);
+  },
+  videoThumbnailSecond: (second) =>
+    checker('videoThumbnailSecond')('second', second, range(0)),
+  watermark: (options) => {
+    const check = checker('watermark');
+    const { offset } = options as { offset?: { x: number; y: number } };
+
+    check('opacity', options.opacity, range(0, 1));
+    check(
+      'position',
+      options.position,
+      oneOf(Object.values(WatermarkPosition)),
+      true,
+    );
+    check('offset.x', offset?.x, FINITE, offset == null);
+    check('offset.y', offset?.y, FINITE, offset == null);
+    check('scale', options.scale, range(0), true);
+  },
+  watermarkShadow: (sigma) =>
+    checker('watermarkShadow')('sigma', sigma, range(0)),
+  watermarkSize: (options) => {
+    const check = checker('watermarkSize');
+    check('width', options.width, range(0), true);
+    check('height', options.height, range(0), true);
+  },
+  zoom: (options) => {
+    const check = checker('zoom');
+
+    if (typeof options === 'number') return check('factor', options, POSITIVE);
+    check('factor.x', options[0], POSITIVE);
+    check('factor.y', options[1], POSITIVE);
+  },
+};
+
+/**
+ * Validates the options of the specified modifier
+ *
+ * @param modifier  The modifier
+ * @param options   The options passed to the modifier
+ */
+const validateModifier = <K extends ModifierName>(
+  modifier: K,
+  options: Parameters<ParamBuilder[K]>,
+): void => {
+  const validator = VALIDATORS[modifier] as
+    | ((...args: Parameters<ParamBuilder[K]>) => void)
+    | undefined;
+
+  validator?.(...options);
+};
+
+export { validateModifier };
@@ -0,0 +1,93 @@
+import * as crypto from 'crypto';
+
+import pb, { createNodeCryptoSigner, GravityType } from '../src/index.js';
+
+// Counts the bytes hashed by the pure JS signer
+let mockHashedBytes = 0;
+
+jest.mock('../src/crypto/sha256.js', () => {
+  const actual = jest.requireActual('../src/crypto/sha256.js');
+
+  return {
+    ...actual,
+    __esModule: true,
+    default: (bytes: Uint8Array, ...rest: unknown[]): unknown => {
+      mockHashedBytes += bytes.length;
+      return actual.default(bytes, ...rest);
+    },
+    sha256Update: (bytes: Uint8Array, ...rest: unknown[]): unknown => {
+      mockHashedBytes += bytes.length;
+      return actual.sha256Update(bytes, ...rest);
+    },
+  };
+});
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+const paths = new Array(50)
+  .fill(0)
+  .map((_, idx) => `s3://mybucket/products/${idx}/💯-image.png`);
+
+describe('Build Many', () => {
+  test.each([
+    ['Without Options', undefined],
+    ['Plain', { plain: true }],
+    ['Base URL', { baseUrl: 'http://test.local' }],
+    ['Signature', { signature }],
+    ['Truncated Signature', { signature: { ...signature, size: 8 } }],
+    [
+      'Custom Signer',
+      { signature, signer: createNodeCryptoSigner(crypto), plain: true },
+    ],
+  ])('Matches build() (%s)', (_, options) => {
+    const builder = pb().rotate(90).blur(10).style({ fill: 'red' });
+
+    expect(builder.buildMany(paths, options)).toEqual(
+      paths.map((path) => builder.build({ ...options, path })),
+    );
+  });
+
+  test('Matches build() Without Modifiers', () => {
+    expect(pb().buildMany(paths, { signature })).toEqual(
+      paths.map((path) => pb().build({ path, signature })),
+    );
+  });
+
+  test('Is Not Affected By Later Changes', () => {
+    const builder = pb().rotate(90);
+    const compiled = builder.compile({ signature });
+
+    builder.blur(10);
+
+    expect(compiled.build('test.png')).toBe(
+      pb().rotate(90).build({ path: 'test.png', signature }),
+    );
+  });
+
+  test('Hashes Less Than Repeated Builds', () => {
+    const builder = pb()
+      .resize({ width: 300, height: 200 })
+      .crop({ width: 100, gravity: { type: GravityType.SMART } })
+      .watermarkText('© Example Corp. All rights reserved.')
+      .style('fill:red;stroke:blue;'.repeat(40));
+
+    const options = { signature, baseUrl: 'http://test.local' };
+
+    const measure = (fn: () => void): number => {
+      mockHashedBytes = 0;
+      fn();
+      return mockHashedBytes;
+    };
+
+    const naive = measure(() =>
+      paths.forEach((path) => builder.build({ ...options, path })),
+    );
+    const compiled = measure(() => builder.buildMany(paths, options));
+
+    expect(compiled).toBeGreaterThan(0);
+    expect(compiled * 2).toBeLessThan(naive);
+  });
+});
@@ -0,0 +1,97 @@
+import pb, { chain, ParamBuilder } from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Canonical', () => {
+  test('Keeps The Insertion Order By Default', () => {
+    expect(pb().rotate(90).blur(1).build({ path: 'a.png' })).toBe(
+      '/-/rot:90/bl:1/YS5wbmc',
+    );
+  });
+
+  test('Orders The Modifiers', () => {
+    const a = pb().blur(1).rotate(90).quality(80).resize({ width: 100 });
+    const b = pb().resize({ width: 100 }).quality(80).rotate(90).blur(1);
+    const options = { path: 'a.png', signature, canonical: true };
+
+    expect(a.build(options)).toBe(b.build(options));
+    expect(a.build({ path: 'a.png', canonical: true })).toBe(
+      '/-/bl:1/q:80/rs::100/rot:90/YS5wbmc',
+    );
+  });
+
+  test('Emits Presets First', () => {
+    expect(
+      pb()
+        .blur(1)
+        .preset('thumbnail')
+        .build({ path: 'a.png', canonical: true }),
+    ).toBe('/-/pr:thumbnail/bl:1/YS5wbmc');
+  });
+
+  test('Drops No-Op Defaults', () => {
+    expect(
+      pb()
+        .rotate(0)
+        .dpr(1)
+        .zoom(1)
+        .blur(0)
+        .quality(0)
+        .pad({})
+        .sharpen(2)
+        .build({ path: 'a.png', canonical: true }),
+    ).toBe('/-/sh:2/YS5wbmc');
+    expect(
+      pb().rotate(0).build({ path: 'a.png', signature, canonical: true }),
+    ).toBe(pb().build({ path: 'a.png', signature }));
+  });
+
+  test('Keeps No-Op Defaults With Presets', () => {
+    const options = { path: 'a.png', signature, canonical: true };
+
+    expect(pb().preset('rotated').rotate(0).build(options)).not.toBe(
+      pb().preset('rotated').build(options),
+    );
+    expect(
+      pb()
+        .rotate(0)
+        .preset('rotated')
+        .build({ path: 'a.png', canonical: true }),
+    ).toBe('/-/pr:rotated/rot:0/YS5wbmc');
+  });
+
+  test('Orders Chained Pipelines Separately', () => {
+    const builder = ParamBuilder.fromUrl('rot:90/bl:10/-/rot:0/q:80').blur(2);
+
+    expect(builder.build()).toBe('rot:90/bl:10/-/rot:0/q:80/bl:2');
+    expect(builder.build({ path: 'a.png', canonical: true })).toBe(
+      '/-/bl:10/rot:90/-/bl:2/q:80/YS5wbmc',
+    );
+    expect(
+      chain({
+        builders: [pb().rotate(90).blur(1), pb().dpr(1).quality(80)],
+        buildOptions: { path: 'a.png', canonical: true },
+      }),
+    ).toBe('/-/bl:1/rot:90/-/q:80/YS5wbmc');
+  });
+
+  test('Applies To Compiled Builders', () => {
+    const builder = pb().rotate(90).blur(1).dpr(1);
+
+    expect(builder.compile({ canonical: true }).build('a.png')).toBe(
+      builder.build({ path: 'a.png', canonical: true }),
+    );
+  });
+
+  test('Applies Before The Long Option Names', () => {
+    expect(
+      pb()
+        .rotate(90)
+        .blur(1)
+        .build({ path: 'a.png', canonical: true, optionNames: 'long' }),
+    ).toBe('/-/blur:1/rotate:90/YS5wbmc');
+  });
+});
@@ -0,0 +1,85 @@
+import { createHmac } from 'crypto';
+import pb, {
+  chain,
+  parse,
+  verifySignature,
+  SignatureStatus,
+} from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Chunk Size', () => {
+  test('Splits The Encoded Path', () => {
+    expect(
+      pb().rotate(90).build({
+        path: 's3://mybucket/myimage.png',
+        chunkSize: 16,
+      }),
+    ).toBe('/-/rot:90/czM6Ly9teWJ1Y2tl/dC9teWltYWdlLnBu/Zw');
+  });
+
+  test('Does Not Split Plain Paths', () => {
+    expect(
+      pb().rotate(90).build({
+        path: 's3://mybucket/myimage.png',
+        plain: true,
+        chunkSize: 4,
+      }),
+    ).toBe('/-/rot:90/plain/s3://mybucket/myimage.png');
+  });
+
+  test('Splits Encrypted Paths', () => {
+    const url = pb().build({
+      path: 's3://mybucket/myimage.png',
+      encrypted: { key: '1eb5b0e971ad7f45324c1bb15c947cb2' },
+      chunkSize: 10,
+      extension: 'webp',
+    });
+
+    expect(url).toMatch(/^\/-\/enc\/([\w-]{10}\/)+[\w-]{1,10}\.webp$/);
+  });
+
+  test('Signature Covers The Chunked Path', () => {
+    const path = `s3://mybucket/${'a/very/long/key/'.repeat(50)}image.png`;
+    const url = pb().rotate(90).build({ path, chunkSize: 255, signature });
+
+    const signedPath = url.slice(url.indexOf('/', 1));
+    const expected = createHmac('sha256', Buffer.from(signature.key, 'hex'))
+      .update(Buffer.from(signature.salt, 'hex'))
+      .update(signedPath)
+      .digest('base64url');
+
+    expect(signedPath.split('/').length).toBeGreaterThan(4);
+    expect(url).toBe(`/${expected}${signedPath}`);
+    expect(verifySignature(url, signature)).toBe(SignatureStatus.VALID);
+    expect(parse(url).path).toBe(path);
+  });
+
+  test('Compiled Builders Split The Encoded Path', () => {
+    const options = { chunkSize: 8, signature };
+
+    expect(pb().blur(10).buildMany(['s3://mybucket/a.png'], options)).toEqual([
+      pb()
+        .blur(10)
+        .build({ path: 's3://mybucket/a.png', ...options }),
+    ]);
+  });
+
+  test('Chain Splits The Encoded Path', () => {
+    expect(
+      chain({
+        builders: [pb().rotate(90), pb().blur(10)],
+        buildOptions: { path: 's3://mybucket/myimage.png', chunkSize: 16 },
+      }),
+    ).toBe('/-/rot:90/-/bl:10/czM6Ly9teWJ1Y2tl/dC9teWltYWdlLnBu/Zw');
+  });
+
+  test.each([0, -1, 1.5, NaN])('Throws On Invalid Chunk Size: %p', (size) => {
+    expect(() => pb().build({ path: 'a.png', chunkSize: size })).toThrow(
+      `Invalid chunk size: ${size}`,
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import pb, {
+  createImgproxyClient,
+  fromEnv,
+  ParamBuilder,
+} from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Client', () => {
+  test('Applies The Build Options', () => {
+    const imgproxy = createImgproxyClient({
+      baseUrl: 'http://test.local',
+      signature,
+    });
+
+    expect(
+      imgproxy.url('s3://mybucket/myimage.png', pb().rotate(90).blur(10)),
+    ).toBe(
+      'http://test.local/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+    );
+  });
+
+  test('Applies The Default Modifiers', () => {
+    const defaults = pb().stripMetadata().dpr(2);
+    const imgproxy = createImgproxyClient({ defaults });
+
+    expect(imgproxy.pb().rotate(90).build()).toBe('sm:true/dpr:2/rot:90');
+    expect(imgproxy.pb().build()).toBe('sm:true/dpr:2');
+    expect(imgproxy.url('a.png')).toBe('/-/sm:true/dpr:2/YS5wbmc');
+    expect(defaults.build()).toBe('sm:true/dpr:2');
+  });
+
+  test('Applies The Default Modifiers To Other Builders', () => {
+    const imgproxy = createImgproxyClient({
+      defaults: pb().stripMetadata().dpr(2),
+    });
+
+    expect(imgproxy.url('a.png', pb().rotate(90))).toBe(
+      '/-/sm:true/dpr:2/rot:90/YS5wbmc',
+    );
+    expect(imgproxy.url('a.png', ParamBuilder.fromUrl('dpr:3/bl:1'))).toBe(
+      '/-/sm:true/dpr:3/bl:1/YS5wbmc',
+    );
+    expect(imgproxy.url('a.png', imgproxy.pb().unset('dpr'))).toBe(
+      '/-/sm:true/YS5wbmc',
+    );
+  });
+
+  test('Overrides The Build Options', () => {
+    const imgproxy = createImgproxyClient({ baseUrl: 'http://test.local' });
+
+    expect(imgproxy.url('a.png', pb(), { plain: true })).toBe(
+      'http://test.local/-/plain/a.png',
+    );
+    expect(imgproxy.url('a.png', pb(), { baseUrl: 'http://other.local' })).toBe(
+      'http://other.local/-/YS5wbmc',
+    );
+  });
+});
+
+describe('From Env', () => {
+  test('Loads The Configuration', () => {
+    expect(
+      fromEnv({
+        IMGPROXY_KEY: signature.key,
+        IMGPROXY_SALT: signature.salt,
+        IMGPROXY_SIGNATURE_SIZE: '8',
+        IMGPROXY_BASE_URL: 'https://imgproxy.test/',
+        IMGPROXY_PATH_PREFIX: '/img',
+      }),
+    ).toEqual({
+      baseUrl: 'https://imgproxy.test',
+      pathPrefix: '/img',
+      signature: { ...signature, size: 8 },
+    });
+  });
+
+  test('Loads An Unsigned Configuration', () => {
+    expect(fromEnv({})).toEqual({});
+  });
+
+  test('Defaults To The Process Environment', () => {
+    process.env.IMGPROXY_BASE_URL = 'https://imgproxy.test';
+
+    try {
+      expect(fromEnv().baseUrl).toBe('https://imgproxy.test');
+    } finally {
+      delete process.env.IMGPROXY_BASE_URL;
+    }
+  });
+
+  test('Reports All Errors', () => {
+    expect(() =>
+      fromEnv({
+        IMGPROXY_KEY: 'xyz',
+        IMGPROXY_SIGNATURE_SIZE: '33',
+        IMGPROXY_BASE_URL: 'imgproxy.test',
+      }),
+    ).toThrow(
+      [
+        'Invalid imgproxy environment configuration:',
+        '- IMGPROXY_KEY is set, but IMGPROXY_SALT is not',
+        "- IMGPROXY_KEY must be hex-encoded, found 'x' at position 0 (the value looks base64-encoded)",
+        '- IMGPROXY_SIGNATURE_SIZE must be an integer between 1 and 32, got: 33',
+        '- IMGPROXY_BASE_URL must be an absolute http(s) URL, got: imgproxy.test',
+      ].join('\n'),
+    );
+  });
+
+  test.each(['0', '1.5', 'abc', '-1'])('Rejects Signature Size: %s', (size) => {
+    expect(() =>
+      fromEnv({
+        IMGPROXY_KEY: signature.key,
+        IMGPROXY_SALT: signature.salt,
+        IMGPROXY_SIGNATURE_SIZE: size,
+      }),
+    ).toThrow(`IMGPROXY_SIGNATURE_SIZE must be an integer between 1 and 32`);
+  });
+
+  test('Creates A Client', () => {
+    const imgproxy = createImgproxyClient({
+      ...fromEnv({
+        IMGPROXY_KEY: signature.key,
+        IMGPROXY_SALT: signature.salt,
+      }),
+      defaults: pb().rotate(90).blur(10),
+    });
+
+    expect(imgproxy.url('s3://mybucket/myimage.png')).toBe(
+      '/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+    );
+  });
+});
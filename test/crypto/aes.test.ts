@@ -0,0 +1,41 @@
+import { createCipheriv } from 'crypto';
+import { aesCbcDecrypt, aesCbcEncrypt } from '../../src/crypto/aes.js';
+
+describe('AES-CBC', () => {
+  test.each(
+    [16, 24, 32].flatMap((keyLength) =>
+      new Array(100).fill(0).map((_, idx) => [keyLength, idx]),
+    ),
+  )('Key Bytes: %i, Message Bytes: %i', (keyLength, length) => {
+    const random = (n: number): Uint8Array =>
+      new Uint8Array(n).map(() => Math.floor(Math.random() * 0x100));
+
+    const key = random(keyLength);
+    const iv = random(16);
+    const message = random(length);
+
+    const cipher = createCipheriv(`aes-${keyLength * 8}-cbc`, key, iv);
+    const expected = Buffer.concat([cipher.update(message), cipher.final()]);
+
+    expect(Buffer.from(aesCbcEncrypt(key, iv, message))).toEqual(expected);
+    expect(aesCbcDecrypt(key, iv, expected)).toEqual(message);
+  });
+
+  test('Throws On Invalid Key Length', () => {
+    expect(() =>
+      aesCbcEncrypt(new Uint8Array(10), new Uint8Array(16), new Uint8Array(1)),
+    ).toThrow('Invalid AES key length: 10 bytes, expected 16, 24 or 32');
+  });
+
+  test('Throws On Invalid IV Length', () => {
+    expect(() =>
+      aesCbcEncrypt(new Uint8Array(16), new Uint8Array(8), new Uint8Array(1)),
+    ).toThrow('Invalid IV length: 8 bytes, expected 16');
+  });
+
+  test('Throws On Invalid Padding', () => {
+    expect(() =>
+      aesCbcDecrypt(new Uint8Array(16), new Uint8Array(16), new Uint8Array(16)),
+    ).toThrow('Invalid padding');
+  });
+});
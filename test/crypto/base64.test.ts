@@ -1,4 +1,9 @@
-import { base64urlEncode, utf8encode } from '../../src/crypto/codec.js';
+import {
+  base64urlDecode,
+  base64urlEncode,
+  utf8decode,
+  utf8encode,
+} from '../../src/crypto/codec.js';
 
 describe('Base 64', () => {
   test.each(new Array(1000).fill(0).map((_, idx) => idx))(
@@ -16,3 +21,36 @@ describe('Base 64', () => {
     },
   );
 });
+
+describe('Base 64 Decode', () => {
+  test.each(new Array(1000).fill(0).map((_, idx) => idx))(
+    'Characters: %i',
+    (length) => {
+      let res = '';
+
+      for (let i = 0; i < length; i++) {
+        res += String.fromCharCode(Math.floor(Math.random() * 0xffff));
+      }
+
+      const encoded = Buffer.from(res, 'utf-8').toString('base64url');
+      const decoded = Buffer.from(res, 'utf-8').toString('utf-8');
+      expect(utf8decode(base64urlDecode(encoded))).toBe(decoded);
+    },
+  );
+});
+
+describe('Base 64 Large Inputs', () => {
+  test.each([4096, 16383, 65536])('Characters: %i', (length) => {
+    let res = '';
+
+    for (let i = 0; i < length; i++) {
+      res += String.fromCharCode(Math.floor(Math.random() * 0xd800));
+    }
+
+    const h = Buffer.from(res, 'utf-8').toString('base64url');
+    expect(base64urlEncode(utf8encode(res))).toBe(h);
+    expect(utf8decode(base64urlDecode(h))).toBe(
+      Buffer.from(res, 'utf-8').toString('utf-8'),
+    );
+  });
+});
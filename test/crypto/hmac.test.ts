@@ -16,7 +16,7 @@ describe('HMAC', () => {
         .update(res, 'utf-8')
         .digest('hex');
 
-      const b = hmac(utf8encode('secret'), utf8encode(res))
+      const b = Array.from(hmac(utf8encode('secret'), utf8encode(res)))
         .map((v) => v.toString(16).padStart(8, '0'))
         .join('');
 
@@ -24,3 +24,44 @@ describe('HMAC', () => {
     },
   );
 });
+
+describe('HMAC Key Length', () => {
+  test.each(new Array(200).fill(0).map((_, idx) => idx + 1))(
+    'Key Bytes: %i',
+    (length) => {
+      let key = '';
+
+      for (let i = 0; i < length; i++) {
+        key += String.fromCharCode(Math.floor(Math.random() * 0x7f));
+      }
+
+      const h = createHmac('sha256', key)
+        .update('message', 'utf-8')
+        .digest('hex');
+
+      const b = Array.from(hmac(utf8encode(key), utf8encode('message')))
+        .map((v) => v.toString(16).padStart(8, '0'))
+        .join('');
+
+      expect(b).toBe(h);
+    },
+  );
+});
+
+describe('HMAC Large Inputs', () => {
+  test.each([4096, 16383, 65536])('Characters: %i', (length) => {
+    let res = '';
+
+    for (let i = 0; i < length; i++) {
+      res += String.fromCharCode(Math.floor(Math.random() * 0xd800));
+    }
+
+    const h = createHmac('sha256', 'secret').update(res, 'utf-8').digest('hex');
+
+    const b = Array.from(hmac(utf8encode('secret'), utf8encode(res)))
+      .map((v) => v.toString(16).padStart(8, '0'))
+      .join('');
+
+    expect(b).toBe(h);
+  });
+});
@@ -13,7 +13,7 @@ describe('SHA256', () => {
       }
 
       const h = createHash('sha256').update(res, 'utf-8').digest('hex');
-      const m = sha256(utf8encode(res))
+      const m = Array.from(sha256(utf8encode(res)))
         .map((v) => v.toString(16).padStart(8, '0'))
         .join('');
 
@@ -21,3 +21,23 @@ describe('SHA256', () => {
     },
   );
 });
+
+describe('SHA256 Large Inputs', () => {
+  test.each([4096, 16383, 65536, 262145])('Bytes: %i', (length) => {
+    const bytes = new Uint8Array(length).map((_, i) => (i * 31) & 0xff);
+
+    const h = createHash('sha256').update(bytes).digest('hex');
+    const m = Array.from(sha256(bytes))
+      .map((v) => v.toString(16).padStart(8, '0'))
+      .join('');
+
+    expect(m).toBe(h);
+  });
+
+  test('Does Not Mutate The Input', () => {
+    const bytes = utf8encode('a'.repeat(100));
+    sha256(bytes);
+
+    expect(bytes).toEqual(utf8encode('a'.repeat(100)));
+  });
+});
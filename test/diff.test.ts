@@ -0,0 +1,131 @@
+import pb, {
+  ParamBuilder,
+  diff,
+  formatDiff,
+  ipb,
+  ResizeType,
+} from '../src/index.js';
+
+describe('Diff', () => {
+  test('Reports Added, Removed And Changed Modifiers', () => {
+    const a = pb().resize({ type: ResizeType.FIT, width: 300 }).quality(80);
+    const b = pb()
+      .resize({ type: ResizeType.FILL, width: 300 })
+      .stripMetadata()
+      .dpr(2);
+
+    expect(diff(a, b)).toEqual({
+      added: [
+        { modifier: 'stripMetadata', value: true },
+        { modifier: 'dpr', value: 2 },
+      ],
+      removed: [{ modifier: 'quality', value: 80 }],
+      changed: [
+        {
+          modifier: 'resize',
+          before: { type: 'fit', width: 300 },
+          after: { type: 'fill', width: 300 },
+        },
+      ],
+    });
+  });
+
+  test('Returns No Changes For Equal Builders', () => {
+    expect(diff(pb().blur(1).rotate(90), pb().rotate(90).blur(1))).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  test('Compares URLs', () => {
+    expect(
+      diff(
+        'https://imgproxy.example.com/-/resize:fit:300/quality:80/YS5wbmc',
+        '/sig/rs:fit:300/q:70/YS5wbmc',
+      ),
+    ).toEqual({
+      added: [],
+      removed: [],
+      changed: [{ modifier: 'quality', before: 80, after: 70 }],
+    });
+  });
+
+  test('Compares Builders With URLs', () => {
+    expect(diff(ipb().blur(2), 'bl:1/sm:1').changed).toEqual([
+      { modifier: 'blur', before: 2, after: 1 },
+    ]);
+    expect(diff('/-/pr:a/YS5wbmc', pb().preset('a')).changed).toEqual([]);
+  });
+
+  test('Compares All Arguments', () => {
+    expect(
+      diff(pb().fileName('bXlmaWxl', true), pb().fileName('bXlmaWxl')).changed,
+    ).toEqual([
+      {
+        modifier: 'fileName',
+        before: ['bXlmaWxl', true],
+        after: ['bXlmaWxl'],
+      },
+    ]);
+  });
+
+  test('Compares Chained Pipelines', () => {
+    expect(
+      diff('/-/bl:1/-/rot:90/YS5wbmc', '/-/bl:2/-/rot:180/YS5wbmc'),
+    ).toEqual({
+      added: [],
+      removed: [],
+      changed: [
+        { modifier: 'blur', before: 1, after: 2, pipeline: 0 },
+        { modifier: 'rotate', before: 90, after: 180, pipeline: 1 },
+      ],
+    });
+    expect(
+      diff(
+        ParamBuilder.fromUrl('/-/bl:1/-/rot:90/YS5wbmc'),
+        'bl:1/-/rot:90/-/q:80',
+      ),
+    ).toEqual({
+      added: [{ modifier: 'quality', value: 80, pipeline: 2 }],
+      removed: [],
+      changed: [],
+    });
+    expect(
+      diff(
+        ParamBuilder.fromUrl('bl:10/-/rot:90'),
+        ParamBuilder.fromUrl('bl:10/-/rot:90').quality(80),
+      ).added,
+    ).toEqual([{ modifier: 'quality', value: 80, pipeline: 1 }]);
+    expect(diff(pb().blur(1), 'bl:1/-/rot:90').added).toEqual([
+      { modifier: 'rotate', value: 90, pipeline: 1 },
+    ]);
+  });
+
+  test('Applies The Parse Options', () => {
+    expect(
+      diff('/img/-/bl:1/YS5wbmc', '/img/-/bl:2/YS5wbmc', { pathPrefix: '/img' })
+        .changed,
+    ).toEqual([{ modifier: 'blur', before: 1, after: 2 }]);
+  });
+
+  test('Formats The Differences', () => {
+    const changes = diff(
+      pb().quality(80).blur(1),
+      pb().quality(70).format('webp').stripMetadata(),
+    );
+
+    expect(formatDiff(changes)).toBe(
+      [
+        '+ format: "webp"',
+        '+ stripMetadata: true',
+        '- blur: 1',
+        '~ quality: 80 -> 70',
+      ].join('\n'),
+    );
+    expect(formatDiff(diff('bl:1/-/rot:90', 'bl:1/-/rot:180'))).toBe(
+      '~ rotate[1]: 90 -> 180',
+    );
+    expect(formatDiff(diff(pb(), pb()))).toBe('');
+  });
+});
@@ -0,0 +1,121 @@
+import { createCipheriv, createHmac } from 'crypto';
+import pb, {
+  decryptSourceUrl,
+  encryptSourceUrl,
+  parse,
+  verifySignature,
+  SignatureStatus,
+} from '../src/index.js';
+
+const key = '1eb5b0e971ad7f45324c1bb15c947cb207c43152fa5c6c7f35c4f36e0c18e0f1';
+const iv = 'a4d8ca8bd07dce0a5b6ef1d1de9e7ac4';
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Encryption', () => {
+  test('Encrypts The Source URL', () => {
+    const cipher = createCipheriv(
+      'aes-256-cbc',
+      Buffer.from(key, 'hex'),
+      Buffer.from(iv, 'hex'),
+    );
+    const expected = Buffer.concat([
+      Buffer.from(iv, 'hex'),
+      cipher.update('s3://mybucket/myimage.png'),
+      cipher.final(),
+    ]).toString('base64url');
+
+    expect(
+      pb().rotate(90).build({
+        path: 's3://mybucket/myimage.png',
+        encrypted: { key, iv },
+      }),
+    ).toBe(`/-/rot:90/enc/${expected}`);
+  });
+
+  test('Derives A Deterministic IV', () => {
+    const ivOf = (path: string): string =>
+      Buffer.from(encryptSourceUrl(path, { key }), 'base64url')
+        .subarray(0, 16)
+        .toString('hex');
+
+    expect(ivOf('s3://mybucket/a.png')).toBe(ivOf('s3://mybucket/a.png'));
+    expect(ivOf('s3://mybucket/a.png')).not.toBe(ivOf('s3://mybucket/b.png'));
+  });
+
+  test('Signs The Encrypted Path', () => {
+    const url = pb().rotate(90).build({
+      path: 's3://mybucket/myimage.png',
+      encrypted: { key },
+      signature,
+    });
+
+    const signedPath = url.slice(url.indexOf('/', 1));
+    const expected = createHmac('sha256', Buffer.from(signature.key, 'hex'))
+      .update(Buffer.from(signature.salt, 'hex'))
+      .update(signedPath)
+      .digest('base64url');
+
+    expect(url).toBe(`/${expected}${signedPath}`);
+    expect(verifySignature(url, signature)).toBe(SignatureStatus.VALID);
+  });
+
+  test('Compiled Builders Encrypt The Source URL', () => {
+    const options = { encrypted: { key }, signature };
+    const builder = pb().rotate(90).blur(10);
+
+    expect(builder.buildMany(['a.png', 'b.png'], options)).toEqual([
+      builder.build({ path: 'a.png', ...options }),
+      builder.build({ path: 'b.png', ...options }),
+    ]);
+  });
+
+  test('Decrypts The Source URL', () => {
+    const path = 'https://internal.test/💯/my image.png?a=1';
+
+    expect(decryptSourceUrl(encryptSourceUrl(path, { key }), key)).toBe(path);
+    expect(decryptSourceUrl(encryptSourceUrl(path, { key, iv }), key)).toBe(
+      path,
+    );
+  });
+
+  test('Supports All Key Sizes', () => {
+    for (const k of [key.slice(0, 32), key.slice(0, 48), key]) {
+      expect(decryptSourceUrl(encryptSourceUrl('a.png', { key: k }), k)).toBe(
+        'a.png',
+      );
+    }
+  });
+
+  test('Parses Encrypted URLs', () => {
+    const res = parse(
+      pb()
+        .rotate(90)
+        .build({ path: 's3://mybucket/myimage.png', encrypted: { key } }),
+    );
+
+    expect(res.encrypted).toBe(true);
+    expect(res.plain).toBe(false);
+    expect(res.builder.build()).toBe('rot:90');
+    expect(decryptSourceUrl(res.path ?? '', key)).toBe(
+      's3://mybucket/myimage.png',
+    );
+  });
+
+  test('Throws If Combined With Plain', () => {
+    expect(() =>
+      pb().build({ path: 'a.png', plain: true, encrypted: { key } }),
+    ).toThrow('The plain and encrypted options are mutually exclusive');
+  });
+
+  test('Throws On Malformed Keys', () => {
+    expect(() => encryptSourceUrl('a.png', { key: `${key} ` })).toThrow(
+      'Invalid encryption key: must not contain whitespace',
+    );
+    expect(() => encryptSourceUrl('a.png', { key, iv: 'abc' })).toThrow(
+      'Invalid encryption IV: must have an even number of characters, got 3',
+    );
+  });
+});
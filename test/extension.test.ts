@@ -0,0 +1,84 @@
+import pb, { parse, FormatOptions } from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Extension', () => {
+  test('Appends The Extension To Encoded Paths', () => {
+    expect(
+      pb().rotate(90).build({
+        path: 's3://mybucket/myimage.png',
+        extension: 'webp',
+      }),
+    ).toBe('/-/rot:90/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw.webp');
+  });
+
+  test('Appends The Extension To Plain Paths', () => {
+    expect(
+      pb().rotate(90).build({
+        path: 's3://mybucket/myimage.png',
+        plain: true,
+        extension: 'webp',
+      }),
+    ).toBe('/-/rot:90/plain/s3://mybucket/myimage.png@webp');
+  });
+
+  test('Appends The Extension To Encrypted Paths', () => {
+    expect(
+      pb().build({
+        path: 's3://mybucket/myimage.png',
+        encrypted: { key: '1eb5b0e971ad7f45324c1bb15c947cb2' },
+        extension: 'avif',
+      }),
+    ).toMatch(/^\/-\/enc\/[\w-]+\.avif$/);
+  });
+
+  test('Includes The Extension In The Signature', () => {
+    const withExt = pb().rotate(90).build({
+      path: 's3://mybucket/myimage.png',
+      extension: 'webp',
+      signature,
+    });
+    const withoutExt = pb().rotate(90).build({
+      path: 's3://mybucket/myimage.png',
+      signature,
+    });
+
+    expect(withExt.split('/')[1]).not.toBe(withoutExt.split('/')[1]);
+    expect(withExt).toBe(
+      '/_fMXknoIFfRJTSnON0Kq6MBJdmT2KL2vfMaZbuP3d6E/rot:90/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw.webp',
+    );
+  });
+
+  test('Compiled Builders Append The Extension', () => {
+    const options = { extension: 'png' as const, signature };
+
+    expect(pb().rotate(90).buildMany(['a.jpg'], options)).toEqual([
+      pb()
+        .rotate(90)
+        .build({ path: 'a.jpg', ...options }),
+    ]);
+  });
+
+  test('Throws On Invalid Extensions', () => {
+    expect(() =>
+      pb().build({ path: 'a.png', extension: 'exe' as FormatOptions }),
+    ).toThrow('Invalid extension: exe');
+  });
+
+  test('Parses The Extension', () => {
+    const encoded = parse('/-/rot:90/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw.webp');
+    expect(encoded.path).toBe('s3://mybucket/myimage.png');
+    expect(encoded.extension).toBe('webp');
+
+    const plain = parse('/-/rot:90/plain/s3://mybucket/myimage.png@webp');
+    expect(plain.path).toBe('s3://mybucket/myimage.png');
+    expect(plain.extension).toBe('webp');
+
+    const none = parse('/-/rot:90/plain/s3://mybucket/myimage.png');
+    expect(none.path).toBe('s3://mybucket/myimage.png');
+    expect(none.extension).toBeUndefined();
+  });
+});
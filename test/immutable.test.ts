@@ -0,0 +1,114 @@
+import pb, {
+  ImgproxyOptionError,
+  ImmutableParamBuilder,
+  ipb,
+  toImmutable,
+} from '../src/index.js';
+
+describe('Immutable', () => {
+  test('Returns A New Builder For Each Modifier', () => {
+    const base = ipb().format('webp').quality(80);
+    const thumbnail = base.resize({ width: 100 });
+    const hero = base.resize({ width: 1200 }).blur(2);
+
+    expect(base.build()).toBe('f:webp/q:80');
+    expect(thumbnail.build()).toBe('f:webp/q:80/rs::100');
+    expect(hero.build()).toBe('f:webp/q:80/rs::1200/bl:2');
+  });
+
+  test('Keeps The Position Of Replaced Modifiers', () => {
+    const base = ipb().rotate(90).blur(1);
+
+    expect(base.rotate(180).build()).toBe('rot:180/bl:1');
+    expect(base.build()).toBe('rot:90/bl:1');
+  });
+
+  test('Unsets Modifiers', () => {
+    const base = ipb().rotate(90).blur(1);
+    const unset = base.unset('rotate');
+
+    expect(unset.build()).toBe('bl:1');
+    expect(unset.has('rotate')).toBe(false);
+    expect(unset.rotate(180).build()).toBe('bl:1/rot:180');
+    expect(base.has('rotate')).toBe(true);
+  });
+
+  test('Matches The Mutable Builder', () => {
+    const options = {
+      path: 'a.png',
+      signature: {
+        key: 'a91bdcda48ce22cd7d8d3a0eda93',
+        salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+      },
+    };
+    const immutable = ipb().resize({ width: 300 }).stripMetadata().dpr(2);
+    const mutable = pb().resize({ width: 300 }).stripMetadata().dpr(2);
+
+    expect(immutable.build(options)).toBe(mutable.build(options));
+    expect(immutable.buildMany(['a.png', 'b.png'])).toEqual(
+      mutable.buildMany(['a.png', 'b.png']),
+    );
+    expect(immutable.compile().build('a.png')).toBe(
+      mutable.compile().build('a.png'),
+    );
+    expect(immutable.get('resize')).toEqual({ width: 300 });
+    expect(immutable.toJSON()).toEqual(mutable.toJSON());
+    expect(immutable.lint()).toEqual([]);
+  });
+
+  test('Builds Asynchronously', async () => {
+    await expect(ipb().blur(1).buildAsync({ path: 'a.png' })).resolves.toBe(
+      '/-/bl:1/YS5wbmc',
+    );
+  });
+
+  test('Converts From A Mutable Builder', () => {
+    const mutable = pb().rotate(90).blur(1);
+    const immutable = toImmutable(mutable);
+
+    mutable.quality(80);
+
+    expect(immutable.build()).toBe('rot:90/bl:1');
+    expect(immutable.quality(50).build()).toBe('rot:90/bl:1/q:50');
+    expect(mutable.build()).toBe('rot:90/bl:1/q:80');
+  });
+
+  test('Converts To A Mutable Builder', () => {
+    const immutable = ipb().rotate(90);
+    const mutable = immutable.toMutable();
+
+    mutable.blur(1);
+
+    expect(mutable.build()).toBe('rot:90/bl:1');
+    expect(immutable.build()).toBe('rot:90');
+    expect(immutable.toMutable().build()).toBe('rot:90');
+  });
+
+  test('Applies The Param Builder Options', () => {
+    const builder = ipb({ strict: true });
+
+    expect(() => builder.quality(150)).toThrow(ImgproxyOptionError);
+    expect(() => toImmutable(pb({ strict: true })).quality(150)).toThrow(
+      ImgproxyOptionError,
+    );
+    expect(() => builder.quality(80).toMutable().quality(150)).toThrow(
+      ImgproxyOptionError,
+    );
+  });
+
+  test('Exposes The Modifiers', () => {
+    const builder: ImmutableParamBuilder = ipb().blur(1).dpr(2);
+
+    expect(Array.from(builder.modifiers.values())).toEqual(['bl:1', 'dpr:2']);
+  });
+
+  test('Does Not Expose The Internal Modifiers', () => {
+    const builder = ipb().blur(1);
+
+    (builder.modifiers as Map<string, string>).set('rotate', 'rot:90');
+
+    expect(builder.build()).toBe('bl:1');
+    expect(builder.has('rotate')).toBe(false);
+    expect(builder.dpr(2).build()).toBe('bl:1/dpr:2');
+  });
+});
@@ -0,0 +1,80 @@
+import pb, {
+  GravityType,
+  ParamBuilder,
+  ResizeOptions,
+  ResizeType,
+  WatermarkPosition,
+} from '../src/index.js';
+
+describe('Introspection', () => {
+  test('Checks Whether Modifiers Are Applied', () => {
+    const builder = pb().resize({ width: 300 }).stripMetadata();
+
+    expect(builder.has('resize')).toBe(true);
+    expect(builder.has('stripMetadata')).toBe(true);
+    expect(builder.has('rotate')).toBe(false);
+    expect(builder.unset('resize').has('resize')).toBe(false);
+  });
+
+  test('Returns The Typed Options', () => {
+    const builder = pb()
+      .resize({ type: ResizeType.FILL, width: 300, height: 200 })
+      .rotate(90)
+      .watermark({
+        opacity: 0.5,
+        position: WatermarkPosition.SOUTH_EAST,
+        offset: { x: 10, y: 5 },
+      })
+      .preset(['a', 'b']);
+
+    const resize: ResizeOptions | undefined = builder.get('resize');
+
+    expect(resize).toEqual({ type: 'fill', width: 300, height: 200 });
+    expect(resize?.width).toBe(300);
+    expect(builder.get('rotate')).toBe(90);
+    expect(builder.get('watermark')).toEqual({
+      opacity: 0.5,
+      position: 'soea',
+      offset: { x: 10, y: 5 },
+    });
+    expect(builder.get('preset')).toEqual(['a', 'b']);
+  });
+
+  test('Returns True For Modifiers Without Options', () => {
+    const builder = pb().stripMetadata().extend();
+
+    expect(builder.get('stripMetadata')).toBe(true);
+    expect(builder.get('extend')).toBe(true);
+    expect(
+      pb()
+        .extend({ gravity: { type: GravityType.NORTH } })
+        .get('extend'),
+    ).toEqual({ gravity: { type: 'no' } });
+  });
+
+  test('Returns All Arguments Of Methods With Multiple Parameters', () => {
+    const encoded: [string, boolean?] | undefined = pb()
+      .fileName('bXlmaWxl', true)
+      .get('fileName');
+
+    expect(encoded).toEqual(['bXlmaWxl', true]);
+    expect(pb().fileName('my file.png').get('fileName')).toEqual([
+      'my file.png',
+    ]);
+  });
+
+  test('Returns Undefined For Missing Modifiers', () => {
+    expect(pb().get('resize')).toBeUndefined();
+    expect(pb().get('stripMetadata')).toBeUndefined();
+  });
+
+  test('Decodes Parsed URLs', () => {
+    const builder = ParamBuilder.fromUrl(
+      '/-/resize:fit:300:200/watermark_url:aHR0cHM6Ly9leGFtcGxlLmNvbS9sb2dvLnBuZw/sm:1/YS5wbmc',
+    );
+
+    expect(builder.get('resize')?.height).toBe(200);
+    expect(builder.get('watermarkUrl')).toBe('https://example.com/logo.png');
+    expect(builder.get('stripMetadata')).toBe(true);
+  });
+});
@@ -0,0 +1,252 @@
+import pb, {
+  chain,
+  GradientDirection,
+  GravityType,
+  ImgproxyOptionError,
+  ParamBuilder,
+  ResizeType,
+  ResizingAlgorithm,
+  UnsharpeningMode,
+  WatermarkPosition,
+} from '../src/index.js';
+
+const builders: Array<[string, ParamBuilder]> = [
+  ['adjust', pb().adjust({ brightness: 100, saturation: 0.9 })],
+  ['autoRotate', pb().autoRotate()],
+  ['background (hex)', pb().background('ff0000')],
+  ['background (rgb)', pb().background({ r: 255, g: 10, b: 0 })],
+  ['backgroundAlpha', pb().backgroundAlpha(0.4)],
+  ['blur', pb().blur(10)],
+  ['blurDetections', pb().blurDetections({ sigma: 2, classNames: ['face'] })],
+  ['brightness', pb().brightness(-20)],
+  ['cacheBuster', pb().cacheBuster('a:b/c')],
+  ['contrast', pb().contrast(0.3)],
+  [
+    'crop',
+    pb().crop({
+      width: 100,
+      gravity: { type: GravityType.NORTH, offset: { x: 5, y: 10 } },
+    }),
+  ],
+  ['disableAnimation', pb().disableAnimation()],
+  ['dpr', pb().dpr(2)],
+  ['drawDetections', pb().drawDetections({ classNames: ['cat', 'dog'] })],
+  ['enforceThumbnail', pb().enforceThumbnail()],
+  ['enlarge', pb().enlarge()],
+  ['expires', pb().expires(new Date(1661431326000))],
+  ['extend', pb().extend()],
+  ['extend (gravity)', pb().extend({ gravity: { type: GravityType.SOUTH } })],
+  [
+    'extendAspectRatio',
+    pb().extendAspectRatio({
+      gravity: { type: GravityType.EAST, offset: { x: 1, y: 2 } },
+    }),
+  ],
+  ['fallbackImageUrl', pb().fallbackImageUrl('https://example.com/ä.png')],
+  ['fileName', pb().fileName('my file.png')],
+  ['fileName (base64)', pb().fileName('bXlmaWxl', true)],
+  ['format', pb().format('webp')],
+  ['formatQuality', pb().formatQuality({ jpg: 80, webp: 70 })],
+  ['gifOptions', pb().gifOptions({ optimizeFrames: true })],
+  [
+    'gradient',
+    pb().gradient({
+      opacity: 0.5,
+      color: 'ff0000',
+      direction: GradientDirection.UP,
+      start: 0.2,
+    }),
+  ],
+  [
+    'gravity',
+    pb().gravity({ type: GravityType.FOCUS_POINT, offset: { x: 0.5, y: 0.2 } }),
+  ],
+  [
+    'jpegOptions',
+    pb().jpegOptions({ progressive: true, quantizationTable: 3 }),
+  ],
+  ['keepCopyright', pb().keepCopyright()],
+  ['maxBytes', pb().maxBytes(1024)],
+  ['minHeight', pb().minHeight(100)],
+  ['minWidth', pb().minWidth(200)],
+  ['pad', pb().pad({ top: 10, left: 20 })],
+  ['page', pb().page(2)],
+  ['pixelate', pb().pixelate(5)],
+  ['pngOptions', pb().pngOptions({ quantize: true, quantization_colors: 16 })],
+  ['preset', pb().preset('thumbnail')],
+  ['preset (many)', pb().preset(['thumbnail', 'blurry'])],
+  ['quality', pb().quality(80)],
+  ['raw', pb().raw()],
+  ['resize', pb().resize({ type: ResizeType.FIT, width: 300, height: 200 })],
+  ['resizingAlgorithm', pb().resizingAlgorithm(ResizingAlgorithm.LANCZOS3)],
+  ['returnAttachment', pb().returnAttachment()],
+  ['rotate', pb().rotate(180)],
+  ['saturation', pb().saturation(0.7)],
+  ['sharpen', pb().sharpen(3)],
+  ['skipProcessing', pb().skipProcessing(['svg', 'gif'])],
+  ['stripColorProfile', pb().stripColorProfile()],
+  ['stripMetadata', pb().stripMetadata()],
+  ['style', pb().style('color: red')],
+  ['trim', pb().trim({ threshold: 10, equal: { horizontal: true } })],
+  ['unsharpen', pb().unsharpen({ mode: UnsharpeningMode.ALWAYS, weight: 2 })],
+  ['videoThumbnailSecond', pb().videoThumbnailSecond(3)],
+  [
+    'watermark',
+    pb().watermark({
+      opacity: 0.5,
+      position: WatermarkPosition.SOUTH_EAST,
+      offset: { x: 10, y: 5 },
+      scale: 0.2,
+    }),
+  ],
+  ['watermarkShadow', pb().watermarkShadow(2)],
+  ['watermarkSize', pb().watermarkSize({ width: 100 })],
+  ['watermarkText', pb().watermarkText('© Ünicode')],
+  ['watermarkUrl', pb().watermarkUrl('https://example.com/logo.png')],
+  ['zoom', pb().zoom(1.5)],
+  ['zoom (xy)', pb().zoom([1.5, 2])],
+];
+
+describe('JSON', () => {
+  test.each(builders)('Round Trips %s', (_, builder) => {
+    const json = JSON.stringify(builder);
+
+    expect(ParamBuilder.fromJSON(json).build()).toBe(builder.build());
+    expect(ParamBuilder.fromJSON(builder.toJSON()).build()).toBe(
+      builder.build(),
+    );
+  });
+
+  test('Emits The Typed Options', () => {
+    expect(
+      pb()
+        .resize({ type: ResizeType.FIT, width: 300, height: 200 })
+        .rotate(90)
+        .stripMetadata()
+        .toJSON(),
+    ).toEqual({
+      version: 1,
+      modifiers: [
+        {
+          method: 'resize',
+          options: [{ type: 'fit', width: 300, height: 200 }],
+        },
+        { method: 'rotate', options: [90] },
+        { method: 'stripMetadata', options: [] },
+      ],
+    });
+  });
+
+  test('Serializes Parsed URLs', () => {
+    expect(
+      ParamBuilder.fromUrl('/-/resize:fill:100/quality:80/YS5wbmc').toJSON()
+        .modifiers,
+    ).toEqual([
+      { method: 'resize', options: [{ type: 'fill', width: 100 }] },
+      { method: 'quality', options: [80] },
+    ]);
+  });
+
+  test('Serializes Chained Pipelines', () => {
+    const url = '/-/bl:1/-/rot:90/q:80/YS5wbmc';
+    const builder = ParamBuilder.fromUrl(url);
+
+    expect(builder.toJSON().modifiers).toEqual([
+      {
+        method: 'chain',
+        pipelines: [
+          [{ method: 'blur', options: [1] }],
+          [
+            { method: 'rotate', options: [90] },
+            { method: 'quality', options: [80] },
+          ],
+        ],
+      },
+    ]);
+    expect(
+      ParamBuilder.fromJSON(JSON.stringify(builder)).build({ path: 'a.png' }),
+    ).toBe(url);
+    expect(
+      ParamBuilder.fromJSON(builder.toJSON()).build({ path: 'a.png' }),
+    ).toBe(
+      chain({
+        builders: [pb().blur(1), pb().rotate(90).quality(80)],
+        buildOptions: { path: 'a.png' },
+      }),
+    );
+  });
+
+  test('Applies The Param Builder Options To Chained Pipelines', () => {
+    const json = {
+      version: 1,
+      modifiers: [
+        {
+          method: 'chain' as const,
+          pipelines: [
+            [{ method: 'quality' as const, options: [150] as [number] }],
+          ],
+        },
+      ],
+    };
+
+    expect(ParamBuilder.fromJSON(json).build()).toBe('q:150');
+    expect(() => ParamBuilder.fromJSON(json, { strict: true })).toThrow(
+      ImgproxyOptionError,
+    );
+  });
+
+  test('Preserves The Modifier Order', () => {
+    const builder = pb().blur(1).rotate(90).quality(50);
+
+    expect(ParamBuilder.fromJSON(builder.toJSON()).build()).toBe(
+      'bl:1/rot:90/q:50',
+    );
+  });
+
+  test('Applies The Param Builder Options', () => {
+    const json = {
+      version: 1,
+      modifiers: [{ method: 'quality' as const, options: [150] as [number] }],
+    };
+
+    expect(ParamBuilder.fromJSON(json).build()).toBe('q:150');
+    expect(() => ParamBuilder.fromJSON(json, { strict: true })).toThrow(
+      ImgproxyOptionError,
+    );
+  });
+
+  test('Rejects Unsupported Schema Versions', () => {
+    expect(() => ParamBuilder.fromJSON({ version: 2, modifiers: [] })).toThrow(
+      'Unsupported schema version: 2, expected 1 to 1',
+    );
+    expect(() => ParamBuilder.fromJSON('{"modifiers":[]}')).toThrow(
+      'Unsupported schema version: undefined, expected 1 to 1',
+    );
+  });
+
+  test('Rejects Invalid Entries', () => {
+    expect(() => ParamBuilder.fromJSON('{"version":1}')).toThrow(
+      'Missing modifiers',
+    );
+    expect(() =>
+      ParamBuilder.fromJSON(
+        '{"version":1,"modifiers":[{"method":"build","options":[]}]}',
+      ),
+    ).toThrow('Unknown method at index 0: build');
+    expect(() =>
+      ParamBuilder.fromJSON(
+        '{"version":1,"modifiers":[{"method":"blur","options":1}]}',
+      ),
+    ).toThrow('Invalid options at index 0, expected an array');
+    expect(() =>
+      ParamBuilder.fromJSON(
+        '{"version":1,"modifiers":[{"method":"chain","pipelines":[1]}]}',
+      ),
+    ).toThrow('Invalid pipelines at index 0, expected an array of arrays');
+    expect(() =>
+      ParamBuilder.fromJSON(
+        '{"version":1,"modifiers":[{"method":"chain","pipelines":[[],[{"method":"chain","pipelines":[]}]]}]}',
+      ),
+    ).toThrow('Unknown method at index 0.1.0: chain');
+  });
+});
@@ -0,0 +1,116 @@
+import pb, {
+  chain,
+  findSigningKey,
+  verifySignature,
+  KeyRing,
+  SignatureStatus,
+} from '../src/index.js';
+
+const oldKey = {
+  id: '2022',
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+const newKey = {
+  id: '2023',
+  key: '73757065722d7365637265742d6b6579',
+  salt: '73757065722d7365637265742d73616c74',
+};
+
+const unknownKey = {
+  id: 'unknown',
+  key: '91bdcda48ce22cd7d8d3a0eda930b3db',
+  salt: '72456c286761260f320391fe500fcec5',
+};
+
+describe('Key Ring', () => {
+  test('Signs With The First Pair By Default', () => {
+    expect(
+      pb()
+        .rotate(90)
+        .blur(10)
+        .build({
+          path: 's3://mybucket/myimage.png',
+          signature: { keys: [oldKey, newKey] },
+        }),
+    ).toEqual(
+      '/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+    );
+  });
+
+  test('Signs With The Active Pair', () => {
+    expect(
+      chain({
+        buildOptions: {
+          path: 'test.png',
+          signature: { keys: [oldKey, newKey], active: '2023' },
+        },
+        builders: [pb().blur(10), pb().autoRotate()],
+      }),
+    ).toEqual(
+      '/8q2Ey2URdWizZb8PgAUKMO6C2tD4aXOa2IbCMV9pTKA/bl:10/-/ar:true/dGVzdC5wbmc',
+    );
+  });
+
+  test('Throws On Unknown Active Pair', () => {
+    expect(() =>
+      pb().build({
+        path: 'test.png',
+        signature: { keys: [oldKey, newKey], active: '2024' },
+      }),
+    ).toThrow('Unknown active key: 2024');
+  });
+
+  test('Applies The Signature Size', () => {
+    const url = pb()
+      .blur(10)
+      .build({
+        path: 'test.png',
+        signature: { keys: [oldKey, newKey], active: '2023', size: 8 },
+      });
+
+    expect(url).toBe(
+      pb()
+        .blur(10)
+        .build({
+          path: 'test.png',
+          signature: { key: newKey.key, salt: newKey.salt, size: 8 },
+        }),
+    );
+    expect(verifySignature(url, { keys: [oldKey, newKey], size: 8 })).toBe(
+      SignatureStatus.VALID,
+    );
+  });
+
+  test('Verifies Against Any Pair', () => {
+    const ring: KeyRing = { keys: [newKey, oldKey] };
+
+    for (const k of [oldKey, newKey]) {
+      const url = pb().blur(10).build({ path: 'test.png', signature: k });
+      expect(verifySignature(url, ring)).toBe(SignatureStatus.VALID);
+    }
+
+    const url = pb()
+      .blur(10)
+      .build({ path: 'test.png', signature: unknownKey });
+    expect(verifySignature(url, ring)).toBe(SignatureStatus.INVALID);
+  });
+
+  test('Finds The Signing Pair', () => {
+    const ring: KeyRing = { keys: [oldKey, newKey, unknownKey] };
+
+    for (const k of ring.keys) {
+      const url = pb().blur(10).build({ path: 'test.png', signature: k });
+      expect(findSigningKey(url, ring)).toBe(k);
+    }
+
+    expect(findSigningKey('/-/bl:10/plain/test.png', ring)).toBeUndefined();
+    expect(
+      findSigningKey(
+        pb().blur(10).build({ path: 'test.png' }).replace('-', 'abc'),
+        ring,
+      ),
+    ).toBeUndefined();
+  });
+});
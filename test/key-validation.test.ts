@@ -0,0 +1,107 @@
+import pb, {
+  findSigningKey,
+  generateKeyPair,
+  verifySignature,
+  KeyRing,
+} from '../src/index.js';
+
+const key = 'a91bdcda48ce22cd7d8d3a0eda93';
+
+describe('Key Validation', () => {
+  test.each([
+    ['', 'must not be empty'],
+    ['a91b dcda', 'must not contain whitespace'],
+    ['a91bdcda\n', 'must not contain whitespace'],
+    ['a91bdcd', 'must have an even number of characters, got 7'],
+    ['a91bxyz0', "must be hex-encoded, found 'x' at position 4"],
+    [
+      'qRvc2kjOIs19jToO2pM=',
+      "must be hex-encoded, found 'q' at position 0 (the value looks base64-encoded)",
+    ],
+  ])('Rejects Key %p', (invalid, reason) => {
+    expect(() =>
+      pb().build({ path: 'a.png', signature: { key: invalid, salt: key } }),
+    ).toThrow(`Invalid signature key: ${reason}`);
+    expect(() =>
+      pb().build({ path: 'a.png', signature: { key, salt: invalid } }),
+    ).toThrow(`Invalid signature salt: ${reason}`);
+  });
+
+  test('Accepts Uppercase Keys', () => {
+    expect(
+      pb().build({
+        path: 'a.png',
+        signature: { key: key.toUpperCase(), salt: key.toUpperCase() },
+      }),
+    ).toBe(pb().build({ path: 'a.png', signature: { key, salt: key } }));
+  });
+
+  test('Names The Invalid Key Of A Key Ring', () => {
+    const keyRing: KeyRing = {
+      keys: [
+        { id: 'a', key, salt: key },
+        { id: 'b', key: 'abc', salt: key },
+      ],
+    };
+
+    expect(() => pb().build({ path: 'a.png', signature: keyRing })).toThrow(
+      'Invalid signature key of key "b": must have an even number of characters, got 3',
+    );
+    expect(() => findSigningKey('/-/YS5wbmc', keyRing)).toThrow(
+      'Invalid signature key of key "b"',
+    );
+  });
+
+  test.each([0, 33, 1.5, -1])('Rejects Signature Size %p', (size) => {
+    const message = `Invalid signature size: ${size}, expected an integer between 1 and 32`;
+
+    expect(() =>
+      pb().build({ path: 'a.png', signature: { key, salt: key, size } }),
+    ).toThrow(message);
+    expect(() => pb().compile({ signature: { key, salt: key, size } })).toThrow(
+      message,
+    );
+    expect(() =>
+      verifySignature('/abc/YS5wbmc', { key, salt: key, size }),
+    ).toThrow(message);
+  });
+});
+
+describe('Generate Key Pair', () => {
+  test('Uses The Random Source', () => {
+    const random = jest.fn((size: number) =>
+      new Uint8Array(size).map((_, i) => i),
+    );
+
+    expect(generateKeyPair(random, 4)).toEqual({
+      key: '00010203',
+      salt: '00010203',
+    });
+    expect(random).toHaveBeenCalledTimes(2);
+  });
+
+  test('Generates 64 Byte Pairs By Default', () => {
+    const { key: k, salt } = generateKeyPair();
+
+    expect(k).toMatch(/^[\da-f]{128}$/);
+    expect(salt).toMatch(/^[\da-f]{128}$/);
+    expect(k).not.toBe(salt);
+  });
+
+  test('Generates Usable Pairs', () => {
+    const signature = generateKeyPair();
+    const url = pb().rotate(90).build({ path: 'a.png', signature });
+
+    expect(verifySignature(url, signature)).toBe('valid');
+  });
+
+  test('Throws On Short Random Output', () => {
+    expect(() => generateKeyPair(() => new Uint8Array(2), 4)).toThrow(
+      'The random source must return 4 bytes',
+    );
+  });
+
+  test('Throws On Invalid Size', () => {
+    expect(() => generateKeyPair(undefined, 0)).toThrow('Invalid key size: 0');
+  });
+});
@@ -0,0 +1,79 @@
+import pb, { GravityType, LintCode } from '../src/index.js';
+
+describe('Lint', () => {
+  test('Returns No Warnings For Valid Builders', () => {
+    expect(pb().lint()).toEqual([]);
+    expect(
+      pb()
+        .resize({ width: 100 })
+        .format('jpg')
+        .jpegOptions({ progressive: true })
+        .watermark({ opacity: 0.5 })
+        .watermarkUrl('https://example.com/logo.png')
+        .lint(),
+    ).toEqual([]);
+    expect(pb().raw().cacheBuster('abc').fileName('a').lint()).toEqual([]);
+  });
+
+  test('Reports Extend With ExtendAspectRatio', () => {
+    const warnings = pb()
+      .extend()
+      .extendAspectRatio({ gravity: { type: GravityType.NORTH } })
+      .lint();
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].code).toBe(LintCode.CONFLICTING_MODIFIERS);
+    expect(warnings[0].modifiers).toEqual(['extend', 'extendAspectRatio']);
+    expect(warnings[0].suggestion).toBeTruthy();
+  });
+
+  test('Reports Watermark Modifiers Without Watermark', () => {
+    const warnings = pb()
+      .watermarkUrl('https://example.com/logo.png')
+      .watermarkShadow(2)
+      .lint();
+
+    expect(warnings.map((w) => [w.code, w.modifiers])).toEqual([
+      [LintCode.MISSING_WATERMARK, ['watermarkShadow']],
+      [LintCode.MISSING_WATERMARK, ['watermarkUrl']],
+    ]);
+    expect(warnings[1].message).toBe(
+      'watermarkUrl has no effect without watermark',
+    );
+  });
+
+  test('Reports Format Options For Another Format', () => {
+    const warnings = pb()
+      .jpegOptions({ progressive: true })
+      .pngOptions({ interlaced: true })
+      .format('webp')
+      .lint();
+
+    expect(warnings.map((w) => [w.code, w.modifiers])).toEqual([
+      [LintCode.FORMAT_MISMATCH, ['jpegOptions', 'format']],
+      [LintCode.FORMAT_MISMATCH, ['pngOptions', 'format']],
+    ]);
+    expect(warnings[0].message).toBe(
+      'jpegOptions has no effect when the format is webp',
+    );
+  });
+
+  test('Reports GIF Options', () => {
+    const warnings = pb().gifOptions({ optimizeFrames: true }).lint();
+
+    expect(warnings.map((w) => w.code)).toEqual([LintCode.REMOVED_MODIFIER]);
+  });
+
+  test('Reports Processing Options With Raw', () => {
+    const warnings = pb()
+      .raw()
+      .resize({ width: 100 })
+      .blur(2)
+      .expires(1)
+      .lint();
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].code).toBe(LintCode.IGNORED_BY_RAW);
+    expect(warnings[0].modifiers).toEqual(['raw', 'resize', 'blur']);
+  });
+});
@@ -0,0 +1,89 @@
+import pb, { ipb, MergeOptions, ParamBuilder } from '../src/index.js';
+
+describe('Merge', () => {
+  test('Merges The Modifiers In Order', () => {
+    const base = pb().format('webp').quality(80);
+    const overlay = pb().quality(70).resize({ width: 300 });
+    const tweaks = pb().blur(2);
+
+    expect(ParamBuilder.merge(base, overlay, tweaks).build()).toBe(
+      'f:webp/q:70/rs::300/bl:2',
+    );
+    expect(base.build()).toBe('f:webp/q:80');
+    expect(overlay.build()).toBe('q:70/rs::300');
+  });
+
+  test('Keeps The First Modifiers', () => {
+    expect(
+      ParamBuilder.merge(pb().quality(80), pb().quality(70).blur(1), {
+        strategy: 'first',
+      }).build(),
+    ).toBe('q:80/bl:1');
+  });
+
+  test('Throws On Conflicting Modifiers', () => {
+    expect(() =>
+      ParamBuilder.merge(pb().quality(80), pb().quality(70), {
+        strategy: 'throw',
+      }),
+    ).toThrow('Conflicting values for quality: q:80 and q:70');
+    expect(
+      ParamBuilder.merge(pb().quality(80), pb().quality(80).blur(1), {
+        strategy: 'throw',
+      }).build(),
+    ).toBe('q:80/bl:1');
+  });
+
+  test('Leaves The Builder Unchanged On Conflicts', () => {
+    const builder = pb().blur(1).quality(80);
+
+    expect(() =>
+      builder.extendWith(pb().rotate(90).quality(70), { strategy: 'throw' }),
+    ).toThrow('Conflicting values for quality: q:80 and q:70');
+    expect(builder.build()).toBe('bl:1/q:80');
+  });
+
+  test('Applies Per-Modifier Strategies', () => {
+    expect(
+      ParamBuilder.merge(
+        pb().quality(80).blur(1),
+        pb().quality(70).blur(2),
+        pb().quality(60).blur(3),
+        { strategy: 'throw', modifiers: { quality: 'first', blur: 'last' } },
+      ).build(),
+    ).toBe('q:80/bl:3');
+  });
+
+  test('Applies Custom Merge Functions', () => {
+    const options: MergeOptions = {
+      modifiers: {
+        formatQuality: ([a], [b]) => [{ ...a, ...b }],
+        preset: ([a], [b]) => [[a, b].flat()],
+      },
+    };
+
+    expect(
+      ParamBuilder.merge(
+        pb().formatQuality({ jpg: 80, webp: 70 }).preset('base'),
+        pb().formatQuality({ webp: 60, avif: 50 }).preset(['a', 'b']),
+        options,
+      ).build(),
+    ).toBe('fq:jpg:80:webp:60:avif:50/pr:base:a:b');
+  });
+
+  test('Extends A Builder', () => {
+    const builder = pb().rotate(90).blur(1);
+
+    expect(builder.extendWith(pb().blur(2).dpr(2))).toBe(builder);
+    expect(builder.build()).toBe('rot:90/bl:2/dpr:2');
+    expect(
+      pb().blur(1).extendWith(pb().blur(2), { strategy: 'first' }).build(),
+    ).toBe('bl:1');
+  });
+
+  test('Extends A Builder With An Immutable Builder', () => {
+    expect(pb().rotate(90).extendWith(ipb().blur(1)).build()).toBe(
+      'rot:90/bl:1',
+    );
+  });
+});
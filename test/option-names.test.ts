@@ -0,0 +1,96 @@
+import pb, {
+  chain,
+  GravityType,
+  ParamBuilder,
+  ResizeType,
+  SignatureStatus,
+  verifySignature,
+} from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Option Names', () => {
+  test('Emits The Short Names By Default', () => {
+    expect(pb().resize({ width: 100 }).build({ path: 'a.png' })).toBe(
+      '/-/rs::100/YS5wbmc',
+    );
+    expect(
+      pb()
+        .resize({ width: 100 })
+        .build({ path: 'a.png', optionNames: 'short' }),
+    ).toBe('/-/rs::100/YS5wbmc');
+  });
+
+  test('Emits The Long Names', () => {
+    expect(
+      pb()
+        .resize({ type: ResizeType.FIT, width: 100 })
+        .crop({ width: 50 })
+        .formatQuality({ jpg: 80 })
+        .watermark({ opacity: 0.5 })
+        .stripMetadata()
+        .build({ path: 'a.png', optionNames: 'long' }),
+    ).toBe(
+      '/-/resize:fit:100/crop:50:0/format_quality:jpg:80/watermark:0.5/strip_metadata:true/YS5wbmc',
+    );
+  });
+
+  test('Signs The Long Names', () => {
+    const url = pb().rotate(90).blur(10).build({
+      path: 's3://mybucket/myimage.png',
+      signature,
+      optionNames: 'long',
+    });
+
+    expect(url).toMatch(
+      /\/rotate:90\/blur:10\/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw$/,
+    );
+    expect(verifySignature(url, signature)).toBe(SignatureStatus.VALID);
+    expect(url).not.toBe(
+      pb()
+        .rotate(90)
+        .blur(10)
+        .build({ path: 's3://mybucket/myimage.png', signature }),
+    );
+  });
+
+  test('Applies To Compiled Builders', () => {
+    const compiled = pb().dpr(2).compile({ signature, optionNames: 'long' });
+
+    expect(compiled.build('a.png')).toBe(
+      pb().dpr(2).build({ path: 'a.png', signature, optionNames: 'long' }),
+    );
+    expect(compiled.build('a.png')).toMatch(/\/dpr:2\/YS5wbmc$/);
+  });
+
+  test('Applies To Chained Pipelines', () => {
+    expect(
+      chain({
+        builders: [pb().trim({ threshold: 10 }), pb().resize({ width: 100 })],
+        buildOptions: { path: 'a.png', optionNames: 'long' },
+      }),
+    ).toBe('/-/trim:10/-/resize::100/YS5wbmc');
+  });
+
+  test('Does Not Apply To Presets Only', () => {
+    expect(
+      pb()
+        .preset('thumbnail')
+        .build({ path: 'a.png', onlyPresets: true, optionNames: 'long' }),
+    ).toBe('/-/thumbnail/YS5wbmc');
+  });
+
+  test('Parses The Long Names', () => {
+    const builder = pb()
+      .resize({ width: 100 })
+      .gravity({ type: GravityType.NORTH })
+      .quality(80);
+    const url = builder.build({ path: 'a.png', optionNames: 'long' });
+
+    expect(url).toBe('/-/resize::100/gravity:no/quality:80/YS5wbmc');
+    expect(ParamBuilder.fromUrl(url).build()).toBe(builder.build());
+  });
+});
@@ -0,0 +1,173 @@
+import pb, {
+  chain,
+  parse,
+  GravityType,
+  ParamBuilder,
+  ResizeType,
+  ResizingAlgorithm,
+  WatermarkPosition,
+} from '../src/index.js';
+
+describe('Parse', () => {
+  test('Parses A Bare Modifier String', () => {
+    const res = parse('rot:90/bl:10');
+
+    expect(res.signature).toBeUndefined();
+    expect(res.path).toBeUndefined();
+    expect(Array.from(res.builder.modifiers.entries())).toEqual([
+      ['rotate', 'rot:90'],
+      ['blur', 'bl:10'],
+    ]);
+  });
+
+  test('Parses An Encoded Path', () => {
+    const res = parse('/-/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw');
+
+    expect(res.signature).toBe('-');
+    expect(res.plain).toBe(false);
+    expect(res.path).toBe('s3://mybucket/myimage.png');
+    expect(res.builder.modifiers.get('rotate')).toBe('rot:90');
+    expect(res.builder.modifiers.get('blur')).toBe('bl:10');
+  });
+
+  test('Parses A Plain Path', () => {
+    const res = parse('/-/rot:90/bl:10/plain/s3://mybucket/my%20image.png');
+
+    expect(res.plain).toBe(true);
+    expect(res.path).toBe('s3://mybucket/my image.png');
+    expect(res.builder.modifiers.size).toBe(2);
+  });
+
+  test('Parses A Full URL', () => {
+    const res = parse(
+      'http://test.local/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+    );
+
+    expect(res.baseUrl).toBe('http://test.local');
+    expect(res.signature).toBe('TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo');
+    expect(res.path).toBe('s3://mybucket/myimage.png');
+    expect(res.builder.build()).toBe('rot:90/bl:10');
+  });
+
+  test('Ignores The Query And The Fragment', () => {
+    const res = parse(
+      'http://test.local/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw?v=2#top',
+    );
+
+    expect(res.signature).toBe('TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo');
+    expect(res.path).toBe('s3://mybucket/myimage.png');
+    expect(res.builder.build()).toBe('rot:90/bl:10');
+    expect(parse('/-/plain/a.png@webp?v=2').extension).toBe('webp');
+  });
+
+  test('Decodes Uncommon Characters', () => {
+    expect(parse('/-/czM6Ly9teWJ1Y2tldC_wn5Kv8J-OhvCfkYwucG5n').path).toBe(
+      's3://mybucket/💯🎆👌.png',
+    );
+  });
+
+  test('Normalizes Long Option Names', () => {
+    const res = parse('/-/resize:fit:300:200/min-width:10/padding:1:2/plain/a');
+
+    expect(Array.from(res.builder.modifiers.entries())).toEqual([
+      ['resize', 'rs:fit:300:200'],
+      ['minWidth', 'mw:10'],
+      ['pad', 'pd:1:2'],
+    ]);
+  });
+
+  test('Parses Chained Pipelines', () => {
+    const res = parse('/-/bl:10/rot:90/-/ar:true/dGVzdC5wbmc');
+
+    expect(res.path).toBe('test.png');
+    expect(res.pipelines).toHaveLength(2);
+    expect(res.pipelines[0].build()).toBe('bl:10/rot:90');
+    expect(res.pipelines[1].build()).toBe('ar:true');
+    expect(res.builder.build({ path: 'test.png' })).toBe(
+      chain({
+        buildOptions: { path: 'test.png' },
+        builders: [pb().blur(10).rotate(90), pb().autoRotate()],
+      }),
+    );
+  });
+
+  test('Throws On Unknown Options', () => {
+    expect(() => parse('/-/foo:bar/plain/test.png')).toThrow(
+      'Unknown processing option: foo',
+    );
+  });
+
+  test('Round Trips All Transformers', () => {
+    const builder = pb()
+      .adjust({ brightness: 10, contrast: 0.5, saturation: 0.3 })
+      .autoRotate()
+      .background({ r: 1, g: 2, b: 3 })
+      .backgroundAlpha(0.5)
+      .blur(10)
+      .blurDetections({ sigma: 2, classNames: ['face'] })
+      .brightness(10)
+      .cacheBuster('abc')
+      .contrast(0.3)
+      .crop({ width: 10, gravity: { type: GravityType.NORTH } })
+      .disableAnimation()
+      .dpr(2)
+      .drawDetections({ classNames: ['cat'] })
+      .enforceThumbnail()
+      .enlarge()
+      .expires(1661431326)
+      .extend({ gravity: { type: GravityType.SOUTH } })
+      .extendAspectRatio()
+      .fallbackImageUrl('https://example.com')
+      .fileName('file.png')
+      .format('webp')
+      .formatQuality({ jpeg: 80, png: 50 })
+      .gifOptions({ optimizeFrames: true })
+      .gradient({ opacity: 0.5 })
+      .gravity({ type: GravityType.SMART })
+      .jpegOptions({ progressive: true })
+      .keepCopyright()
+      .maxBytes(1000)
+      .minHeight(10)
+      .minWidth(20)
+      .pad({ top: 10 })
+      .page(2)
+      .pixelate(5)
+      .pngOptions({ interlaced: true })
+      .preset(['a', 'b'])
+      .quality(80)
+      .raw()
+      .resize({ type: ResizeType.FIT, width: 100 })
+      .resizingAlgorithm(ResizingAlgorithm.LANCZOS3)
+      .returnAttachment()
+      .rotate(90)
+      .saturation(0.5)
+      .sharpen(3)
+      .skipProcessing(['svg'])
+      .stripColorProfile()
+      .stripMetadata()
+      .style({ fill: 'red' })
+      .trim({ threshold: 10, color: 'fff' })
+      .unsharpen({ weight: 2 })
+      .videoThumbnailSecond(3)
+      .watermark({ opacity: 0.5, position: WatermarkPosition.REPLICATE })
+      .watermarkShadow(3)
+      .watermarkSize({ width: 10 })
+      .watermarkText('text')
+      .watermarkUrl('https://example.com/wm.png')
+      .zoom([2, 3]);
+
+    const url = builder.build({
+      path: 's3://mybucket/myimage.png',
+      baseUrl: 'https://imgproxy.test',
+    });
+
+    const res = ParamBuilder.fromUrl(url);
+
+    expect(Array.from(res.modifiers.entries())).toEqual(
+      Array.from(builder.modifiers.entries()),
+    );
+    expect(res.build({ path: 's3://mybucket/myimage.png' })).toBe(
+      builder.build({ path: 's3://mybucket/myimage.png' }),
+    );
+  });
+});
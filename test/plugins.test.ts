@@ -0,0 +1,194 @@
+import pb, {
+  ParamBuilder,
+  chain,
+  diff,
+  ipb,
+  parse,
+  toImmutable,
+} from '../src/index.js';
+
+declare module '../src/index.js' {
+  interface CustomModifiers {
+    colorize: [color: string, opacity?: number];
+    monochrome: [];
+  }
+}
+
+ParamBuilder.registerModifier({
+  name: 'colorize',
+  code: 'col',
+  longName: 'colorize',
+  serialize: (color, opacity) => [color, opacity],
+  validate: (_, opacity) => {
+    if (opacity != null && (opacity < 0 || opacity > 1))
+      throw new Error(`Invalid opacity: ${opacity}`);
+  },
+  parse: ([color, opacity]) => (opacity ? [color, Number(opacity)] : [color]),
+});
+
+ParamBuilder.registerModifier({
+  name: 'monochrome',
+  code: 'mono',
+  serialize: () => [true],
+});
+
+describe('Plugins', () => {
+  test('Adds The Typed Methods', () => {
+    expect(pb().colorize('ff0000', 0.5).monochrome().build()).toBe(
+      'col:ff0000:0.5/mono:true',
+    );
+    expect(pb().blur(1).colorize('ff0000').build({ path: 'a.png' })).toBe(
+      '/-/bl:1/col:ff0000/YS5wbmc',
+    );
+  });
+
+  test('Unsets And Clones Custom Modifiers', () => {
+    const builder = pb().colorize('ff0000').blur(1);
+    const copy = builder.clone().colorize('00ff00');
+
+    expect(builder.unset('colorize').build()).toBe('bl:1');
+    expect(copy.build()).toBe('col:00ff00/bl:1');
+  });
+
+  test('Chains Custom Modifiers', () => {
+    expect(chain([pb().colorize('ff0000'), pb().monochrome()])).toBe(
+      'col:ff0000/-/mono:true',
+    );
+  });
+
+  test('Parses Custom Modifiers', () => {
+    const builder = ParamBuilder.fromUrl(
+      '/-/colorize:ff0000:0.5/mono:1/bl:1/YS5wbmc',
+    );
+
+    expect(builder.build()).toBe('col:ff0000:0.5/mono:1/bl:1');
+    expect(builder.get('colorize')).toEqual(['ff0000', 0.5]);
+    expect(builder.has('monochrome')).toBe(true);
+    expect(parse('/-/col:ff0000/-/mono:1/YS5wbmc').pipelines).toHaveLength(2);
+  });
+
+  test('Uses The Long Option Names', () => {
+    expect(
+      pb()
+        .colorize('ff0000')
+        .monochrome()
+        .build({ path: 'a.png', optionNames: 'long' }),
+    ).toBe('/-/colorize:ff0000/mono:true/YS5wbmc');
+  });
+
+  test('Serializes Custom Modifiers To JSON', () => {
+    const builder = pb().colorize('ff0000', 0.5).blur(1);
+
+    expect(builder.toJSON().modifiers).toEqual([
+      { method: 'colorize', options: ['ff0000', 0.5] },
+      { method: 'blur', options: [1] },
+    ]);
+    expect(ParamBuilder.fromJSON(JSON.stringify(builder)).build()).toBe(
+      builder.build(),
+    );
+    expect(() => pb().monochrome().toJSON()).toThrow(
+      'Cannot decode modifier without parser: monochrome',
+    );
+  });
+
+  test('Compares Custom Modifiers', () => {
+    expect(diff(pb().colorize('ff0000'), 'col:00ff00').changed).toEqual([
+      { modifier: 'colorize', before: ['ff0000'], after: ['00ff00'] },
+    ]);
+  });
+
+  test('Validates Custom Modifiers In Strict Mode', () => {
+    expect(pb().colorize('ff0000', 2).build()).toBe('col:ff0000:2');
+    expect(() => pb({ strict: true }).colorize('ff0000', 2)).toThrow(
+      'Invalid opacity: 2',
+    );
+  });
+
+  test('Rejects Conflicting Modifiers', () => {
+    const serialize = (): string[] => [];
+
+    expect(() =>
+      ParamBuilder.registerModifier({
+        name: 'blur' as 'monochrome',
+        code: 'blr',
+        serialize,
+      }),
+    ).toThrow('Cannot register modifier, already defined: blur');
+    expect(() =>
+      ParamBuilder.registerModifier({
+        name: 'monochrome',
+        code: 'mono',
+        serialize,
+      }),
+    ).toThrow('Cannot register modifier, already defined: monochrome');
+    expect(() =>
+      ParamBuilder.registerModifier({
+        name: 'other' as 'monochrome',
+        code: 'bl',
+        serialize,
+      }),
+    ).toThrow('Option name already in use: bl');
+    expect(() =>
+      ParamBuilder.registerModifier({
+        name: 'other' as 'monochrome',
+        code: 'a:b',
+        serialize,
+      }),
+    ).toThrow('Invalid option name: a:b');
+    expect(() =>
+      ParamBuilder.registerModifier({
+        name: 'toMutable' as 'monochrome',
+        code: 'tm',
+        serialize,
+      }),
+    ).toThrow('Cannot register modifier, already defined: toMutable');
+    expect(() => ParamBuilder.fromUrl('/-/tm:1/YS5wbmc')).toThrow(
+      'Unknown processing option: tm',
+    );
+  });
+
+  test('Orders Custom Modifiers In Canonical Mode', () => {
+    const options = { path: 'a.png', canonical: true };
+
+    expect(pb().monochrome().blur(1).colorize('ff0000').build(options)).toBe(
+      '/-/bl:1/col:ff0000/mono:true/YS5wbmc',
+    );
+    expect(pb().colorize('ff0000').monochrome().build(options)).toBe(
+      pb().monochrome().colorize('ff0000').build(options),
+    );
+  });
+
+  test('Adds The Methods To Immutable Builders', () => {
+    const base = ipb().blur(1);
+    const colorized = base.colorize('ff0000', 0.5);
+
+    expect(colorized.monochrome().build()).toBe(
+      'bl:1/col:ff0000:0.5/mono:true',
+    );
+    expect(colorized.get('colorize')).toEqual(['ff0000', 0.5]);
+    expect(colorized.unset('colorize').build()).toBe('bl:1');
+    expect(base.has('colorize')).toBe(false);
+    expect(toImmutable(pb().colorize('00ff00')).blur(1).build()).toBe(
+      'col:00ff00/bl:1',
+    );
+    expect(() => ipb({ strict: true }).colorize('ff0000', 2)).toThrow(
+      'Invalid opacity: 2',
+    );
+  });
+
+  test('Merges Custom Modifiers', () => {
+    const a = pb().colorize('ff0000', 0.5);
+    const b = pb().colorize('00ff00');
+
+    expect(
+      ParamBuilder.merge(a, b, { modifiers: { colorize: 'first' } }).build(),
+    ).toBe('col:ff0000:0.5');
+    expect(
+      ParamBuilder.merge(a, b, {
+        modifiers: {
+          colorize: ([, opacity], [color]) => [color, opacity],
+        },
+      }).build(),
+    ).toBe('col:00ff00:0.5');
+  });
+});
@@ -1,3 +1,4 @@
+import { createHmac } from 'crypto';
 import pb from '../src/index.js';
 
 describe('Signature', () => {
@@ -53,7 +54,7 @@ describe('Signature', () => {
     );
   });
 
-  test.each(new Array(32).fill(0).map((_, idx) => idx))(
+  test.each(new Array(32).fill(0).map((_, idx) => idx + 1))(
     'Adds Truncated Signature, Size: %i',
     (size) => {
       expect(
@@ -80,4 +81,32 @@ describe('Signature', () => {
       );
     },
   );
+
+  test('Signs Multi-Kilobyte Source URLs', () => {
+    const path = `https://example.com/${'ä/bc?d=1&'.repeat(1000)}.png`;
+    const url = pb()
+      .rotate(90)
+      .style({ fill: 'red'.repeat(2000) })
+      .build({
+        path,
+        signature: {
+          key: 'a91bdcda48ce22cd7d8d3a0eda93',
+          salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+        },
+      });
+
+    const signedPath = url.slice(url.indexOf('/', 1));
+    const expected = createHmac(
+      'sha256',
+      Buffer.from('a91bdcda48ce22cd7d8d3a0eda93', 'hex'),
+    )
+      .update(Buffer.from('a91bdcda48ce22cd7d8d3a0eda93', 'hex'))
+      .update(signedPath)
+      .digest('base64url');
+
+    expect(url).toBe(`/${expected}${signedPath}`);
+    expect(signedPath).toContain(
+      `/${Buffer.from(path, 'utf-8').toString('base64url')}`,
+    );
+  });
 });
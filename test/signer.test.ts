@@ -0,0 +1,120 @@
+import * as crypto from 'crypto';
+
+import pb, {
+  chain,
+  createNodeCryptoSigner,
+  createWebCryptoSigner,
+  pureJsSigner,
+  AsyncSigner,
+  Signer,
+} from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+const expected =
+  '/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw';
+
+const syncSigners: Array<[string, Signer]> = [
+  ['Pure JS', pureJsSigner],
+  ['node:crypto', createNodeCryptoSigner(crypto)],
+];
+
+const asyncSigners: Array<[string, Signer | AsyncSigner]> = [
+  ...syncSigners,
+  ['Web Crypto', createWebCryptoSigner(crypto.webcrypto.subtle)],
+];
+
+describe('Signer', () => {
+  test.each(syncSigners)('Builds With %s Signer', (_, signer) => {
+    expect(
+      pb()
+        .rotate(90)
+        .blur(10)
+        .build({ path: 's3://mybucket/myimage.png', signature, signer }),
+    ).toEqual(expected);
+  });
+
+  test.each(asyncSigners)('Builds Async With %s Signer', async (_, signer) => {
+    await expect(
+      pb()
+        .rotate(90)
+        .blur(10)
+        .buildAsync({ path: 's3://mybucket/myimage.png', signature, signer }),
+    ).resolves.toEqual(expected);
+  });
+
+  test('Builds Async With Default Signer', async () => {
+    await expect(
+      pb()
+        .rotate(90)
+        .blur(10)
+        .buildAsync({ path: 's3://mybucket/myimage.png', signature }),
+    ).resolves.toEqual(expected);
+  });
+
+  test('Builds Async Without Signature Or Path', async () => {
+    await expect(pb().rotate(90).buildAsync()).resolves.toBe('rot:90');
+    await expect(
+      pb().rotate(90).buildAsync({ path: 'test.png', plain: true }),
+    ).resolves.toBe('/-/rot:90/plain/test.png');
+  });
+
+  test('Rejects Asynchronous Signers In Synchronous Builds', () => {
+    expect(() =>
+      pb().build({
+        path: 'test.png',
+        signature,
+        signer: createWebCryptoSigner(
+          crypto.webcrypto.subtle,
+        ) as unknown as Signer,
+      }),
+    ).toThrow('Asynchronous signers require buildAsync()');
+  });
+
+  test('Uses The Signer In Chains', () => {
+    expect(
+      chain({
+        buildOptions: {
+          path: 'test.png',
+          signature: {
+            key: '73757065722d7365637265742d6b6579',
+            salt: '73757065722d7365637265742d73616c74',
+          },
+          signer: createNodeCryptoSigner(crypto),
+        },
+        builders: [pb().blur(10), pb().autoRotate()],
+      }),
+    ).toEqual(
+      '/8q2Ey2URdWizZb8PgAUKMO6C2tD4aXOa2IbCMV9pTKA/bl:10/-/ar:true/dGVzdC5wbmc',
+    );
+  });
+
+  test.each(new Array(100).fill(0).map((_, idx) => idx))(
+    'Produces Identical Signatures, Characters: %i',
+    async (length) => {
+      let path = '';
+
+      for (let i = 0; i < length; i++) {
+        path += String.fromCharCode(Math.floor(Math.random() * 0xff));
+      }
+
+      const key = crypto.randomBytes(1 + (length % 80)).toString('hex');
+      const salt = crypto.randomBytes(1 + (length % 40)).toString('hex');
+      const options = { path, signature: { key, salt } };
+
+      const results = await Promise.all(
+        asyncSigners.map(([, signer]) =>
+          pb()
+            .blur(10)
+            .buildAsync({ ...options, signer }),
+        ),
+      );
+
+      expect(new Set(results).size).toBe(1);
+      expect(results[0]).toBe(pb().blur(10).build(options));
+    },
+  );
+});
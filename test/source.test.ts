@@ -0,0 +1,108 @@
+import pb, { parse, parseSource, source } from '../src/index.js';
+
+describe('Source', () => {
+  test('Creates S3 URLs', () => {
+    expect(source.s3({ bucket: 'mybucket', key: 'a/b.png' })).toBe(
+      's3://mybucket/a/b.png',
+    );
+    expect(
+      source.s3({ bucket: 'mybucket', key: 'a/b.png', versionId: 'v1' }),
+    ).toBe('s3://mybucket/a/b.png?v1');
+  });
+
+  test('Creates GCS URLs', () => {
+    expect(
+      source.gcs({ bucket: 'mybucket', key: 'a.png', generation: '123' }),
+    ).toBe('gs://mybucket/a.png?123');
+  });
+
+  test('Creates Azure URLs', () => {
+    expect(source.azure({ container: 'images', blob: 'a/b.png' })).toBe(
+      'abs://images/a/b.png',
+    );
+  });
+
+  test('Creates Swift URLs', () => {
+    expect(source.swift({ container: 'images', object: 'a/b.png' })).toBe(
+      'swift://images/a/b.png',
+    );
+  });
+
+  test('Creates Local URLs', () => {
+    expect(source.local('/images/a.png')).toBe('local:///images/a.png');
+    expect(source.local('images/a.png')).toBe('local:///images/a.png');
+  });
+
+  test('Creates HTTP URLs', () => {
+    expect(source.http('https://example.com/my image.png?a=1')).toBe(
+      'https://example.com/my%20image.png?a=1',
+    );
+    expect(() => source.http('ftp://example.com/a.png')).toThrow(
+      'Invalid HTTP URL: ftp://example.com/a.png',
+    );
+    expect(() => source.http('https://')).toThrow('Invalid HTTP URL');
+  });
+
+  test('Escapes Special Characters', () => {
+    expect(
+      source.s3({
+        bucket: 'mybucket',
+        key: 'dir/my image?#%💯.png',
+        versionId: 'a&b',
+      }),
+    ).toBe('s3://mybucket/dir/my%20image%3F%23%25%F0%9F%92%AF.png?a%26b');
+  });
+
+  test('Throws On Missing Parts', () => {
+    expect(() => source.s3({ bucket: '', key: 'a.png' })).toThrow(
+      'Missing bucket for s3:// source',
+    );
+    expect(() => source.gcs({ bucket: 'a', key: '' })).toThrow(
+      'Missing key for gs:// source',
+    );
+    expect(() => source.local('')).toThrow('Missing path for local:// source');
+  });
+
+  test.each([
+    { type: 's3' as const, bucket: 'b', key: 'dir/my image?#.png' },
+    { type: 's3' as const, bucket: 'b', key: 'a.png', versionId: 'v?1' },
+    { type: 'gcs' as const, bucket: 'b', key: '💯.png', generation: '1' },
+    { type: 'azure' as const, container: 'c', blob: 'a b/c.png' },
+    { type: 'swift' as const, container: 'c', object: 'a%b.png' },
+  ])('Parses Back: %p', (location) => {
+    const { type, ...options } = location;
+    const url =
+      type === 'azure'
+        ? source.azure(options as never)
+        : type === 'swift'
+        ? source.swift(options as never)
+        : source[type](options as never);
+
+    expect(parseSource(url)).toEqual(location);
+  });
+
+  test('Parses Back Local And HTTP URLs', () => {
+    expect(parseSource(source.local('/a b/c.png'))).toEqual({
+      type: 'local',
+      path: '/a b/c.png',
+    });
+    expect(parseSource(source.http('https://example.com/a.png'))).toEqual({
+      type: 'http',
+      url: 'https://example.com/a.png',
+    });
+    expect(() => parseSource('ftp://example.com/a.png')).toThrow(
+      'Unsupported source: ftp://example.com/a.png',
+    );
+  });
+
+  test('Round Trips Through Build And Parse', () => {
+    const path = source.s3({ bucket: 'mybucket', key: 'my image#1.png' });
+    const url = pb().rotate(90).build({ path });
+
+    expect(parseSource(parse(url).path ?? '')).toEqual({
+      type: 's3',
+      bucket: 'mybucket',
+      key: 'my image#1.png',
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import pb, {
+  createImgproxyClient,
+  GravityType,
+  ImgproxyOptionError,
+  ParamBuilder,
+  RotationOptions,
+} from '../src/index.js';
+
+const catchError = (fn: () => unknown): ImgproxyOptionError => {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(ImgproxyOptionError);
+    return e as ImgproxyOptionError;
+  }
+
+  throw new Error('Expected an ImgproxyOptionError');
+};
+
+describe('Strict Mode', () => {
+  test('Is Disabled By Default', () => {
+    expect(pb().quality(150).blur(-3).build()).toBe('q:150/bl:-3');
+  });
+
+  test('Accepts Valid Options', () => {
+    expect(
+      pb({ strict: true })
+        .quality(80)
+        .blur(0)
+        .rotate(90)
+        .dpr(2)
+        .zoom([0.5, 2])
+        .gravity({ type: GravityType.FOCUS_POINT, offset: { x: 0.5, y: 1 } })
+        .build(),
+    ).toBe('q:80/bl:0/rot:90/dpr:2/z:0.5%202/g:fp:0.5:1');
+  });
+
+  test('Rejects An Out Of Range Quality', () => {
+    const error = catchError(() => pb({ strict: true }).quality(150));
+
+    expect(error.modifier).toBe('quality');
+    expect(error.argument).toBe('percentage');
+    expect(error.allowed).toBe('an integer between 0 and 100');
+    expect(error.value).toBe(150);
+    expect(error.message).toBe(
+      'Invalid percentage for quality: 150, expected an integer between 0 and 100',
+    );
+  });
+
+  test('Rejects A Negative Blur', () => {
+    const error = catchError(() => pb({ strict: true }).blur(-3));
+
+    expect(error.modifier).toBe('blur');
+    expect(error.allowed).toBe('a number >= 0');
+  });
+
+  test('Rejects An Invalid Rotation', () => {
+    const error = catchError(() =>
+      pb({ strict: true }).rotate(45 as RotationOptions),
+    );
+
+    expect(error.modifier).toBe('rotate');
+    expect(error.allowed).toBe('one of 0, 90, 180, 270');
+  });
+
+  test('Rejects A Zero DPR', () => {
+    expect(catchError(() => pb({ strict: true }).dpr(0)).allowed).toBe(
+      'a number > 0',
+    );
+  });
+
+  test('Rejects A Zero Zoom Factor', () => {
+    const error = catchError(() => pb({ strict: true }).zoom([0, 2]));
+
+    expect(error.modifier).toBe('zoom');
+    expect(error.argument).toBe('factor.x');
+  });
+
+  test('Rejects Invalid Nested Options', () => {
+    expect(
+      catchError(() =>
+        pb({ strict: true }).extend({
+          gravity: { type: GravityType.SMART as GravityType.CENTER },
+        }),
+      ).argument,
+    ).toBe('gravity.type');
+    expect(
+      catchError(() => pb({ strict: true }).background('red')).argument,
+    ).toBe('color');
+    expect(
+      catchError(() => pb({ strict: true }).formatQuality({ jpg: 101 }))
+        .argument,
+    ).toBe('jpg');
+    expect(
+      catchError(() => pb({ strict: true }).gradient({ opacity: '1.5' }))
+        .argument,
+    ).toBe('opacity');
+  });
+
+  test('Does Not Apply Invalid Modifiers', () => {
+    const builder = pb({ strict: true }).quality(80);
+
+    expect(() => builder.quality(150)).toThrow(ImgproxyOptionError);
+    expect(builder.build()).toBe('q:80');
+  });
+
+  test('Is Preserved By Clone And FromUrl', () => {
+    expect(() => pb({ strict: true }).clone().blur(-3)).toThrow(
+      ImgproxyOptionError,
+    );
+    expect(() =>
+      ParamBuilder.fromUrl('q:80', { strict: true }).quality(150),
+    ).toThrow(ImgproxyOptionError);
+  });
+
+  test('Is Enabled Per Client', () => {
+    const imgproxy = createImgproxyClient({
+      strict: true,
+      defaults: pb().quality(80),
+    });
+
+    expect(() => imgproxy.pb().quality(150)).toThrow(ImgproxyOptionError);
+    expect(imgproxy.pb().blur(1).build()).toBe('q:80/bl:1');
+  });
+});
@@ -0,0 +1,98 @@
+import pb, {
+  createImgproxyClient,
+  ImgproxyTargetError,
+  LintCode,
+  ParamBuilder,
+} from '../src/index.js';
+
+describe('Target', () => {
+  test('Exposes The Supported Modifiers', () => {
+    const oss2 = pb({ target: { version: 2, edition: 'oss' } });
+    const pro3 = pb({ target: { version: 3, edition: 'pro' } });
+
+    expect(oss2.rotate(90).blur(2).build()).toBe('rot:90/bl:2');
+    expect(pro3.raw().adjust({ brightness: 10 }).build()).toBe('raw:true/a:10');
+
+    // @ts-expect-error Not supported by imgproxy 2
+    expect(() => oss2.raw).not.toThrow();
+    // @ts-expect-error Only supported by imgproxy Pro
+    expect(() => oss2.rotate(90).adjust).not.toThrow();
+    // @ts-expect-error Removed in imgproxy 3
+    expect(() => pro3.gifOptions).not.toThrow();
+  });
+
+  test('Reports Unsupported Modifiers', () => {
+    const builder = new ParamBuilder(new Map(), {
+      target: { version: 2, edition: 'oss' },
+    });
+
+    const warnings = builder.keepCopyright().adjust({ brightness: 10 }).lint();
+
+    expect(warnings.map((w) => [w.code, w.modifiers])).toEqual([
+      [LintCode.UNSUPPORTED_MODIFIER, ['keepCopyright']],
+      [LintCode.UNSUPPORTED_MODIFIER, ['adjust']],
+    ]);
+    expect(warnings[0].message).toBe(
+      'keepCopyright is not supported by imgproxy 2 (OSS)',
+    );
+    expect(warnings[0].suggestion).toBe(
+      'Remove keepCopyright or target imgproxy 3',
+    );
+    expect(warnings[1].suggestion).toBe('Remove adjust or target imgproxy Pro');
+  });
+
+  test('Reports GIF Options As Unsupported On Version 3', () => {
+    const warnings = new ParamBuilder(new Map(), {
+      target: { version: 3, edition: 'pro' },
+    })
+      .gifOptions({ optimizeFrames: true })
+      .lint();
+
+    expect(warnings.map((w) => w.code)).toEqual([
+      LintCode.UNSUPPORTED_MODIFIER,
+    ]);
+    expect(
+      new ParamBuilder(new Map(), { target: { version: 2, edition: 'pro' } })
+        .gifOptions({ optimizeFrames: true })
+        .lint(),
+    ).toEqual([]);
+  });
+
+  test('Throws In Strict Mode', () => {
+    const builder = new ParamBuilder(new Map(), {
+      strict: true,
+      target: { version: 3, edition: 'oss' },
+    });
+
+    expect(() => builder.blurDetections({ sigma: 2 })).toThrow(
+      ImgproxyTargetError,
+    );
+    expect(() => builder.blurDetections({ sigma: 2 })).toThrow(
+      'blurDetections is not supported by imgproxy 3 (OSS)',
+    );
+    expect(builder.raw().build()).toBe('raw:true');
+  });
+
+  test('Is Preserved By Clone', () => {
+    const builder = new ParamBuilder(new Map(), {
+      target: { version: 2, edition: 'oss' },
+    });
+
+    expect(builder.clone().raw().lint()).toHaveLength(1);
+  });
+
+  test('Is Applied Per Client', () => {
+    const imgproxy = createImgproxyClient({
+      strict: true,
+      target: { version: 3, edition: 'oss' },
+    });
+
+    expect(imgproxy.url('a.png', imgproxy.pb().raw())).toBe(
+      '/-/raw:true/YS5wbmc',
+    );
+    // @ts-expect-error Only supported by imgproxy Pro
+    expect(() => imgproxy.pb().adjust({ brightness: 10 })).toThrow(
+      ImgproxyTargetError,
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import pb, {
+  defineTemplate,
+  GravityType,
+  ParamBuilder,
+  ResizeType,
+  WatermarkPosition,
+} from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Template', () => {
+  const factory = (p: { width: number; height?: number }): ParamBuilder =>
+    pb()
+      .format('webp')
+      .resize({ type: ResizeType.FIT, width: p.width, height: p.height })
+      .quality(80);
+
+  test('Reports The Parameterised Modifiers', () => {
+    const template = defineTemplate(factory);
+
+    expect(template.compiled).toBe(true);
+    expect(template.parameterised).toEqual(['resize']);
+  });
+
+  test('Renders The Params', () => {
+    const template = defineTemplate(factory);
+    const params = [
+      { width: 300 },
+      { width: 300, height: 200 },
+      { width: 0.5, height: 0 },
+    ];
+
+    for (const p of params) {
+      expect(template.render(p)).toBe(factory(p).build());
+      expect(template.render(p, { path: 'a.png', signature })).toBe(
+        factory(p).build({ path: 'a.png', signature }),
+      );
+    }
+    expect(template.render({ width: 300 })).toBe('f:webp/rs:fit:300/q:80');
+  });
+
+  test('Returns Independent Builders', () => {
+    const template = defineTemplate(factory);
+    const builder = template.builder({ width: 100 }).blur(1);
+
+    expect(builder.build()).toBe('f:webp/rs:fit:100/q:80/bl:1');
+    expect(template.render({ width: 100 })).toBe('f:webp/rs:fit:100/q:80');
+  });
+
+  test('Encodes The Params', () => {
+    const template = defineTemplate((p: { buster: string; name: string }) =>
+      pb().cacheBuster(p.buster).fileName(p.name),
+    );
+
+    expect(template.compiled).toBe(true);
+    expect(template.render({ buster: 'a:b/c', name: 'my file.png' })).toBe(
+      pb().cacheBuster('a:b/c').fileName('my file.png').build(),
+    );
+  });
+
+  test('Calls The Factory For Computed Params', () => {
+    const computed = defineTemplate((p: { width: number }) =>
+      pb().resize({ width: p.width * 2 }),
+    );
+    const conditional = defineTemplate((p: { blur?: number }) =>
+      p.blur ? pb().blur(p.blur) : pb().rotate(90),
+    );
+    const encoded = defineTemplate((p: { url: string }) =>
+      pb().watermarkUrl(p.url),
+    );
+    const spread = defineTemplate((p: { width: number }) =>
+      pb().resize({ ...p }),
+    );
+
+    expect(computed.compiled).toBe(false);
+    expect(computed.render({ width: 100 })).toBe('rs::200');
+    expect(conditional.compiled).toBe(false);
+    expect(conditional.parameterised).toEqual(['blur']);
+    expect(conditional.render({})).toBe('rot:90');
+    expect(encoded.compiled).toBe(false);
+    expect(encoded.render({ url: 'https://example.com' })).toBe(
+      pb().watermarkUrl('https://example.com').build(),
+    );
+    expect(spread.compiled).toBe(false);
+    expect(spread.render({ width: 100 })).toBe('rs::100');
+  });
+
+  test('Calls The Factory For Transformed Params', () => {
+    const fallback = defineTemplate((p: { width: number }) =>
+      pb().resize({ width: p.width || 300 }),
+    );
+    const trimmed = defineTemplate((p: { v: string }) =>
+      pb().cacheBuster(p.v.trim()),
+    );
+    const concatenated = defineTemplate((p: { width: number }) =>
+      pb().resize({ width: p.width + 10 }),
+    );
+
+    expect(fallback.compiled).toBe(false);
+    expect(fallback.parameterised).toEqual(['resize']);
+    expect(fallback.render({ width: 0 })).toBe('rs::300');
+    expect(fallback.render({ width: 100 })).toBe('rs::100');
+    expect(trimmed.compiled).toBe(false);
+    expect(trimmed.render({ v: ' a ' })).toBe('cb:a');
+    expect(concatenated.compiled).toBe(false);
+    expect(concatenated.render({ width: 100 })).toBe('rs::110');
+  });
+
+  test('Substitutes Nested Options', () => {
+    const template = defineTemplate(
+      (p: { gravity: GravityType; position?: WatermarkPosition }) =>
+        pb()
+          .gravity({ type: p.gravity })
+          .watermark({ opacity: 0.5, position: p.position }),
+    );
+
+    expect(template.compiled).toBe(true);
+    expect(template.parameterised).toEqual(['gravity', 'watermark']);
+    expect(
+      template.render({
+        gravity: GravityType.NORTH,
+        position: WatermarkPosition.EAST,
+      }),
+    ).toBe('g:no/wm:0.5:ea');
+    expect(template.render({ gravity: GravityType.SOUTH })).toBe('g:so/wm:0.5');
+  });
+
+  test('Calls The Factory For Missing Params', () => {
+    const crop = (p: { height?: number }): ParamBuilder =>
+      pb().crop({ width: 100, height: p.height });
+    const gradient = (p: { color?: string }): ParamBuilder =>
+      pb().gradient({ opacity: 0.5, color: p.color });
+    const cropTemplate = defineTemplate(crop);
+    const gradientTemplate = defineTemplate(gradient);
+
+    expect(cropTemplate.compiled).toBe(true);
+    expect(cropTemplate.render({})).toBe('c:100:0');
+    expect(cropTemplate.render({ height: undefined })).toBe(crop({}).build());
+    expect(cropTemplate.render({ height: 50 })).toBe('c:100:50');
+    expect(gradientTemplate.render({})).toBe('gr:0.5:000:down:0.0:1.0');
+    expect(gradientTemplate.render({ color: 'ff0000' })).toBe(
+      gradient({ color: 'ff0000' }).build(),
+    );
+  });
+
+  test('Calls The Factory For Objects', () => {
+    const template = defineTemplate((p: { presets: string | string[] }) =>
+      pb().preset(p.presets),
+    );
+
+    expect(template.compiled).toBe(true);
+    expect(template.render({ presets: 'a' })).toBe('pr:a');
+    expect(template.render({ presets: ['a', 'b'] })).toBe('pr:a:b');
+  });
+
+  test('Calls The Factory For Strict Builders', () => {
+    const template = defineTemplate((p: { quality: number }) =>
+      pb({ strict: true }).quality(p.quality),
+    );
+    const fileName = defineTemplate((p: { name: string }) =>
+      pb({ strict: true }).fileName(p.name),
+    );
+
+    expect(template.compiled).toBe(false);
+    expect(template.parameterised).toBeUndefined();
+    expect(template.render({ quality: 80 })).toBe('q:80');
+    expect(() => template.render({ quality: 150 })).toThrow();
+    expect(fileName.compiled).toBe(false);
+    expect(fileName.render({ name: 'a.png' })).toBe('fn:a.png');
+    expect(() => fileName.render({ name: '' })).toThrow();
+  });
+});
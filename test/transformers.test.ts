@@ -670,6 +670,14 @@ describe('Transformers', () => {
         'st:' + base64urlEncode(utf8encode('foo:bar;abc:1')),
       );
     });
+
+    test('Applies Modifier (Long Payload)', () => {
+      const style = `.a{fill:url(#ä)}`.repeat(4000);
+
+      expect(pb().style(style)).toIncludeModifier(
+        'st:' + Buffer.from(style, 'utf-8').toString('base64url'),
+      );
+    });
   });
 
   describe('Trim', () => {
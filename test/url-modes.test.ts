@@ -0,0 +1,127 @@
+import { createHmac } from 'crypto';
+import pb, {
+  parse,
+  verifySignature,
+  ParamBuilder,
+  SignatureStatus,
+} from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Path Prefix', () => {
+  test.each(['/img', 'img', '/img/', 'img/'])(
+    'Prepends The Prefix: %s',
+    (pathPrefix) => {
+      expect(
+        pb().rotate(90).build({
+          path: 's3://mybucket/myimage.png',
+          baseUrl: 'https://imgproxy.test',
+          pathPrefix,
+        }),
+      ).toBe(
+        'https://imgproxy.test/img/-/rot:90/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+      );
+    },
+  );
+
+  test('Does Not Sign The Prefix', () => {
+    const url = pb().rotate(90).blur(10).build({
+      path: 's3://mybucket/myimage.png',
+      pathPrefix: '/img',
+      signature,
+    });
+
+    expect(url).toBe(
+      '/img/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+    );
+    expect(verifySignature(url.slice('/img'.length), signature)).toBe(
+      SignatureStatus.VALID,
+    );
+  });
+
+  test('Compiled Builders Prepend The Prefix', () => {
+    const options = { pathPrefix: '/img', signature };
+
+    expect(pb().rotate(90).buildMany(['a.png'], options)).toEqual([
+      pb()
+        .rotate(90)
+        .build({ path: 'a.png', ...options }),
+    ]);
+  });
+
+  test('Parses Prefixed URLs', () => {
+    const res = parse(
+      'https://imgproxy.test/img/-/rot:90/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+      { pathPrefix: '/img' },
+    );
+
+    expect(res.baseUrl).toBe('https://imgproxy.test');
+    expect(res.signature).toBe('-');
+    expect(res.path).toBe('s3://mybucket/myimage.png');
+    expect(res.builder.build()).toBe('rot:90');
+  });
+});
+
+describe('Only Presets', () => {
+  test('Emits The Preset Names', () => {
+    expect(
+      pb()
+        .preset(['thumbnail', 'blurry'])
+        .build({ path: 's3://mybucket/myimage.png', onlyPresets: true }),
+    ).toBe('/-/thumbnail:blurry/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw');
+  });
+
+  test('Signs The Preset Names', () => {
+    const url = pb()
+      .preset('thumbnail')
+      .build({ path: 'a.png', onlyPresets: true, signature });
+
+    const signedPath = url.slice(url.indexOf('/', 1));
+    const expected = createHmac('sha256', Buffer.from(signature.key, 'hex'))
+      .update(Buffer.from(signature.salt, 'hex'))
+      .update(signedPath)
+      .digest('base64url');
+
+    expect(url).toBe(`/${expected}/thumbnail/YS5wbmc`);
+  });
+
+  test('Compiled Builders Emit The Preset Names', () => {
+    const options = { onlyPresets: true, signature };
+
+    expect(pb().preset('a').buildMany(['a.png'], options)).toEqual([
+      pb()
+        .preset('a')
+        .build({ path: 'a.png', ...options }),
+    ]);
+  });
+
+  test('Throws On Other Modifiers', () => {
+    expect(() =>
+      pb()
+        .preset('a')
+        .rotate(90)
+        .blur(10)
+        .build({ path: 'a.png', onlyPresets: true }),
+    ).toThrow('Only presets are allowed, found: rotate, blur');
+  });
+
+  test('Throws Without Presets', () => {
+    expect(() => pb().build({ path: 'a.png', onlyPresets: true })).toThrow(
+      'At least one preset is required',
+    );
+  });
+
+  test('Parses Preset-Only URLs', () => {
+    const builder = ParamBuilder.fromUrl('/-/thumbnail:blurry/YS5wbmc', {
+      onlyPresets: true,
+    });
+
+    expect(builder.build()).toBe('pr:thumbnail:blurry');
+    expect(parse('/-/thumbnail/YS5wbmc', { onlyPresets: true }).path).toBe(
+      'a.png',
+    );
+  });
+});
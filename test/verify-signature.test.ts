@@ -0,0 +1,115 @@
+import pb, {
+  SignatureStatus,
+  createImgproxyClient,
+  findSigningKey,
+  fromEnv,
+  verifySignature,
+} from '../src/index.js';
+
+const signature = {
+  key: 'a91bdcda48ce22cd7d8d3a0eda93',
+  salt: 'a91bdcda48ce22cd7d8d3a0eda93',
+};
+
+describe('Verify Signature', () => {
+  test('Accepts A Valid Signature', () => {
+    expect(
+      verifySignature(
+        '/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+        signature,
+      ),
+    ).toBe(SignatureStatus.VALID);
+  });
+
+  test('Ignores The Base URL', () => {
+    expect(
+      verifySignature(
+        'http://test.local/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+        signature,
+      ),
+    ).toBe(SignatureStatus.VALID);
+  });
+
+  test.each(['?v=2', '#top', '?v=2#top'])('Ignores The Query "%s"', (query) => {
+    expect(
+      verifySignature(
+        `http://test.local/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw${query}`,
+        signature,
+      ),
+    ).toBe(SignatureStatus.VALID);
+  });
+
+  test('Rejects A Tampered Path', () => {
+    expect(
+      verifySignature(
+        '/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:11/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+        signature,
+      ),
+    ).toBe(SignatureStatus.INVALID);
+  });
+
+  test('Rejects A Different Key', () => {
+    expect(
+      verifySignature(
+        '/TXf2QXtZkU-ULvrg0pLDqJlWUb7XdHkXD0h6NFWD-mo/rot:90/bl:10/czM6Ly9teWJ1Y2tldC9teWltYWdlLnBuZw',
+        { ...signature, key: '73757065722d7365637265742d6b6579' },
+      ),
+    ).toBe(SignatureStatus.INVALID);
+  });
+
+  test.each(['-', '_'])('Detects Unsigned Placeholder "%s"', (placeholder) => {
+    expect(
+      verifySignature(`/${placeholder}/rot:90/plain/test.png`, signature),
+    ).toBe(SignatureStatus.UNSIGNED);
+  });
+
+  test.each(['rot:90/bl:10', '/', '/abc', '/abc/', '/a$b/rot:90/plain/a'])(
+    'Detects Malformed URL "%s"',
+    (url) => {
+      expect(verifySignature(url, signature)).toBe(SignatureStatus.MALFORMED);
+    },
+  );
+
+  test.each(new Array(31).fill(0).map((_, idx) => idx + 1))(
+    'Verifies Truncated Signature, Size: %i',
+    (size) => {
+      const url = pb()
+        .rotate(90)
+        .build({ path: 'test.png', signature: { ...signature, size } });
+
+      expect(verifySignature(url, { ...signature, size })).toBe(
+        SignatureStatus.VALID,
+      );
+      expect(verifySignature(url, { ...signature, size: size + 1 })).toBe(
+        SignatureStatus.INVALID,
+      );
+    },
+  );
+
+  test('Strips The Path Prefix', () => {
+    const url = pb()
+      .blur(1)
+      .build({ path: 'x.png', signature, pathPrefix: '/img' });
+
+    expect(verifySignature(url, signature, { pathPrefix: '/img' })).toBe(
+      SignatureStatus.VALID,
+    );
+    expect(
+      findSigningKey(url, { keys: [signature] }, { pathPrefix: '/img' }),
+    ).toBe(signature);
+    expect(verifySignature(url, signature)).toBe(SignatureStatus.INVALID);
+  });
+
+  test('Verifies URLs Of A Client With A Path Prefix', () => {
+    const config = fromEnv({
+      IMGPROXY_KEY: signature.key,
+      IMGPROXY_SALT: signature.salt,
+      IMGPROXY_BASE_URL: 'https://imgproxy.test',
+      IMGPROXY_PATH_PREFIX: '/img',
+    });
+    const url = createImgproxyClient(config).url('x.png', pb().blur(1));
+
+    expect(url.startsWith('https://imgproxy.test/img/')).toBe(true);
+    expect(verifySignature(url, signature, config)).toBe(SignatureStatus.VALID);
+  });
+});